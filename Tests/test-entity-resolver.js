@@ -0,0 +1,116 @@
+/**
+ * Unit tests for entity resolution against a stubbed 2024 season
+ * Run `npm run build` first; these import the compiled modules
+ */
+
+import { F1DataService } from '../build/services/f1-data.service.js';
+import { entityResolver } from '../build/services/entity-resolver.service.js';
+
+const f1Service = F1DataService.getInstance();
+
+const drivers = [
+  { driverId: 'max_verstappen', permanentNumber: 33, code: 'VER', givenName: 'Max', familyName: 'Verstappen' },
+  { driverId: 'hamilton', permanentNumber: 44, code: 'HAM', givenName: 'Lewis', familyName: 'Hamilton' },
+  { driverId: 'leclerc', permanentNumber: 16, code: 'LEC', givenName: 'Charles', familyName: 'Leclerc' },
+];
+const constructors = [
+  { constructorId: 'red_bull', name: 'Red Bull' },
+  { constructorId: 'ferrari', name: 'Ferrari' },
+];
+const calendar = [
+  {
+    season: 2024,
+    round: 8,
+    raceName: 'Monaco Grand Prix',
+    date: '2024-05-26',
+    Circuit: { circuitId: 'monaco', circuitName: 'Circuit de Monaco', Location: { locality: 'Monte-Carlo', country: 'Monaco' } },
+  },
+];
+
+// Ergast IDs that exist outside the stubbed season
+const historicalDrivers = new Set(['verstappen', 'max_verstappen', 'hamilton', 'leclerc']);
+const historicalConstructors = new Set(['red_bull', 'ferrari']);
+
+const ergastLookups = [];
+
+beforeAll(() => {
+  Object.assign(f1Service, {
+    getSeasonDrivers: async () => ({ data: drivers }),
+    getSeasonConstructors: async () => ({ data: constructors }),
+    getRaceCalendar: async () => ({ data: calendar }),
+    getDriverStandings: async () => ({ data: null }),
+    getMeetings: async () => [],
+    getHistoricalSessions: async () => [],
+    getDriverInfo: async id => {
+      ergastLookups.push(id);
+      return historicalDrivers.has(id) ? { driverId: id } : null;
+    },
+    getConstructorInformation: async id => {
+      ergastLookups.push(id);
+      return historicalConstructors.has(id) ? { constructorId: id } : undefined;
+    },
+    getCircuitInfo: async id => {
+      ergastLookups.push(id);
+      return undefined;
+    },
+  });
+});
+
+beforeEach(() => {
+  ergastLookups.length = 0;
+});
+
+describe('resolveDriverId', () => {
+  test.each([
+    ['Max', 'max_verstappen'],
+    ['VER', 'max_verstappen'],
+    ['33', 'max_verstappen'],
+    ['Lewis Hamilton', 'hamilton'],
+    ['lec', 'leclerc'],
+  ])('resolves %s to %s', async (query, driverId) => {
+    expect(await entityResolver.resolveDriverId(query, 2024)).toBe(driverId);
+  });
+
+  test('keeps an ID of the season without asking Ergast', async () => {
+    expect(await entityResolver.resolveDriverId('hamilton', 2024)).toBe('hamilton');
+    expect(ergastLookups).toEqual([]);
+  });
+
+  test('keeps a historical Ergast ID that matches a current driver by name', async () => {
+    expect(await entityResolver.resolveDriverId('verstappen', 2024)).toBe('verstappen');
+    expect(ergastLookups).toEqual(['verstappen']);
+  });
+
+  test('resolves a name that is not an Ergast ID', async () => {
+    expect(await entityResolver.resolveDriverId('charles', 2024)).toBe('leclerc');
+  });
+
+  test('keeps input that only matches as a substring', async () => {
+    expect(await entityResolver.resolveDriverId('stappen', 2024)).toBe('stappen');
+  });
+
+  test('keeps input that matches nothing', async () => {
+    expect(await entityResolver.resolveDriverId('fangio', 2024)).toBe('fangio');
+  });
+});
+
+describe('resolveConstructorId', () => {
+  test('resolves a team name', async () => {
+    expect(await entityResolver.resolveConstructorId('Red Bull', 2024)).toBe('red_bull');
+  });
+
+  test('resolves a prefix once Ergast confirms it is not a constructor ID', async () => {
+    expect(await entityResolver.resolveConstructorId('ferr', 2024)).toBe('ferrari');
+    expect(ergastLookups).toEqual(['ferr']);
+  });
+});
+
+describe('resolveCircuitId', () => {
+  test('resolves a locality', async () => {
+    expect(await entityResolver.resolveCircuitId('Monte Carlo', 2024)).toBe('monaco');
+  });
+
+  test('keeps input that only matches as a substring', async () => {
+    expect(await entityResolver.resolveCircuitId('onac', 2024)).toBe('onac');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for the Ergast paging helpers
+ * Run `npm run build` first; these import the compiled modules
+ */
+
+import { mapWithConcurrency, mergeErgastRows, planErgastPages } from '../build/utils/ergast-paging.js';
+
+const result = (driverId, position) => ({ position: String(position), Driver: { driverId } });
+
+describe('mergeErgastRows', () => {
+  test('merges a race whose results are split across two pages', () => {
+    const rows = [
+      { season: '2024', round: '1', raceName: 'Bahrain Grand Prix', Results: [result('max_verstappen', 1), result('perez', 2)] },
+      { season: '2024', round: '1', raceName: 'Bahrain Grand Prix', Results: [result('sainz', 3)] },
+      { season: '2024', round: '2', raceName: 'Saudi Arabian Grand Prix', Results: [result('max_verstappen', 1)] },
+    ];
+
+    const merged = mergeErgastRows(rows);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].Results.map(r => r.Driver.driverId)).toEqual(['max_verstappen', 'perez', 'sainz']);
+    expect(merged[1].round).toBe('2');
+  });
+
+  test('merges a lap whose timings are split across pages inside the same race', () => {
+    const rows = [
+      {
+        season: '2024',
+        round: '1',
+        Laps: [
+          { number: '1', Timings: [{ driverId: 'max_verstappen', position: '1', time: '1:37.284' }] },
+          { number: '2', Timings: [{ driverId: 'max_verstappen', position: '1', time: '1:36.296' }] },
+        ],
+      },
+      {
+        season: '2024',
+        round: '1',
+        Laps: [
+          { number: '2', Timings: [{ driverId: 'leclerc', position: '2', time: '1:36.953' }] },
+          { number: '3', Timings: [{ driverId: 'max_verstappen', position: '1', time: '1:36.122' }] },
+        ],
+      },
+    ];
+
+    const [race] = mergeErgastRows(rows);
+
+    expect(race.Laps.map(lap => lap.number)).toEqual(['1', '2', '3']);
+    expect(race.Laps[1].Timings.map(t => t.driverId)).toEqual(['max_verstappen', 'leclerc']);
+  });
+
+  test('keeps rows without a race or lap key as they are', () => {
+    const rows = [{ driverId: 'hamilton' }, { driverId: 'hamilton' }];
+
+    expect(mergeErgastRows(rows)).toEqual(rows);
+  });
+
+  test('does not merge non-adjacent fragments of the same race', () => {
+    const rows = [
+      { season: '2024', round: '1', Results: [result('max_verstappen', 1)] },
+      { season: '2024', round: '2', Results: [result('max_verstappen', 1)] },
+      { season: '2024', round: '1', Results: [result('perez', 2)] },
+    ];
+
+    expect(mergeErgastRows(rows)).toHaveLength(3);
+  });
+});
+
+describe('planErgastPages', () => {
+  test('plans the pages after the first one up to the total', () => {
+    expect(planErgastPages(250, 100, 5000)).toEqual({
+      fetched: 250,
+      truncated: false,
+      remaining: [{ offset: 100, limit: 100 }, { offset: 200, limit: 100 }],
+    });
+  });
+
+  test('needs no further pages when the first page holds every row', () => {
+    expect(planErgastPages(20, 100, 5000)).toEqual({ fetched: 20, truncated: false, remaining: [] });
+  });
+
+  test('stops at maxRows and shortens the last page', () => {
+    expect(planErgastPages(1000, 100, 250)).toEqual({
+      fetched: 250,
+      truncated: true,
+      remaining: [{ offset: 100, limit: 100 }, { offset: 200, limit: 50 }],
+    });
+  });
+
+  test('is not truncated when the total equals maxRows', () => {
+    expect(planErgastPages(300, 100, 300).truncated).toBe(false);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  test('preserves order and caps the number of promises in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async delay => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(peak).toBe(2);
+  });
+});
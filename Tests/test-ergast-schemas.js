@@ -0,0 +1,48 @@
+/**
+ * Unit tests for the Ergast response schemas
+ * Run `npm run build` first; these import the compiled modules
+ */
+
+import { durationSchema, qualifyingResultSchema } from '../build/interfaces/ergast.interface.js';
+
+const driver = {
+  driverId: 'sargeant',
+  code: 'SAR',
+  givenName: 'Logan',
+  familyName: 'Sargeant',
+};
+
+describe('durationSchema', () => {
+  test('parses a bare time string', () => {
+    expect(durationSchema.parse('1:29.708')).toEqual({ time: '1:29.708', millis: 89708 });
+  });
+
+  test('parses a blank time as undefined', () => {
+    expect(durationSchema.safeParse('')).toEqual({ success: true, data: undefined });
+  });
+});
+
+describe('qualifyingResultSchema', () => {
+  test('accepts blank Q2 and Q3 times for drivers knocked out in Q1', () => {
+    const parsed = qualifyingResultSchema.safeParse({
+      number: '2',
+      position: '20',
+      Driver: driver,
+      Q1: '1:31.652',
+      Q2: '',
+      Q3: '',
+    });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data.Q1).toEqual({ time: '1:31.652', millis: 91652 });
+    expect(parsed.data.Q2).toBeUndefined();
+    expect(parsed.data.Q3).toBeUndefined();
+  });
+
+  test('accepts a blank Q1 time for drivers without a lap', () => {
+    const parsed = qualifyingResultSchema.safeParse({ position: '20', Driver: driver, Q1: '' });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data.Q1).toBeUndefined();
+  });
+});
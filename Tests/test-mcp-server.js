@@ -114,15 +114,22 @@ async function testTool(name, toolName, params = {}, validator) {
     
     const responseTime = Date.now() - startTime;
     
-    // Parse the result
+    // Parse the result (tools return a single-key structuredContent payload,
+    // plus `paging` metadata for paginated Ergast queries)
     let data;
     try {
-      const content = result.content[0];
-      if (content.type === 'text') {
-        data = JSON.parse(content.text);
-      } else {
-        throw new Error('Unexpected content type');
+      if (result.isError) {
+        throw new Error(result.content[0]?.text || 'Tool returned an error');
       }
+      if (!result.structuredContent) {
+        throw new Error('Missing structuredContent');
+      }
+      const { paging, ...payload } = result.structuredContent;
+      if (paging?.truncated) {
+        console.log(`   ⚠️  Truncated: ${paging.fetched} of ${paging.total} rows`);
+      }
+      const values = Object.values(payload);
+      data = values.length === 1 ? values[0] : result.structuredContent;
     } catch (parseError) {
       console.log(`   ❌ FAIL - Failed to parse response: ${parseError.message}`);
       return {
@@ -291,7 +298,7 @@ async function testLiveDataTools() {
     'getLiveWeather',
     {},
     (data) => {
-      if (data.message && data.message.includes('No weather')) {
+      if (data === null) {
         return { valid: true, message: 'No weather data available', dataPoints: 0 };
       }
       
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the era points systems, checked against known standings
+ * Run `npm run build` first; these import the compiled modules
+ */
+
+import {
+  countedPoints,
+  maxWeekendPoints,
+  pointsSystemForSeason,
+  raceDistance,
+  racePoints,
+  scoreRace,
+  sprintPoints,
+} from '../build/utils/points-system.js';
+
+function result(driverId, position, points = 0, extra = {}) {
+  return {
+    position: typeof position === 'number' ? position : 99,
+    positionText: String(position),
+    points,
+    Driver: { driverId, givenName: driverId, familyName: driverId },
+    status: 'Finished',
+    ...extra,
+  };
+}
+
+describe('pointsSystemForSeason', () => {
+  test.each([
+    [1950, '1950', 8],
+    [1960, '1960', 8],
+    [1961, '1961', 9],
+    [1988, '1979', 9],
+    [1991, '1991', 10],
+    [2003, '2003', 10],
+    [2010, '2010', 25],
+    [2021, '2021', 25],
+    [2024, '2022', 25],
+    [2030, '2025', 25],
+  ])('uses the right table in %i', (year, id, winner) => {
+    const system = pointsSystemForSeason(year);
+
+    expect(system.id).toBe(id);
+    expect(racePoints(system, 1)).toBe(winner);
+  });
+
+  test('attaches the season\'s dropped results', () => {
+    expect(pointsSystemForSeason(1988).dropped).toEqual({ best: [11] });
+    expect(pointsSystemForSeason(1979).dropped).toEqual({ best: [4, 4], firstHalf: 7 });
+    expect(pointsSystemForSeason(1991).dropped).toBeUndefined();
+  });
+});
+
+describe('countedPoints', () => {
+  // Points per round in 1988 (9-6-4-3-2-1, best 11 of 16 results)
+  const prost1988 = [9, 6, 9, 9, 6, 6, 9, 0, 6, 6, 6, 0, 9, 9, 6, 9];
+  const senna1988 = [0, 9, 0, 6, 9, 9, 6, 9, 9, 9, 9, 0, 1, 3, 9, 6];
+
+  test.each([
+    ['Prost', prost1988, 105, 87],
+    ['Senna', senna1988, 94, 90],
+  ])('drops %s\'s worst 1988 results', (_, rounds, scored, counted) => {
+    const system = pointsSystemForSeason(1988);
+
+    expect(countedPoints({ ...system, dropped: undefined }, rounds)).toBe(scored);
+    expect(countedPoints(system, rounds)).toBe(counted);
+  });
+
+  test('counts the best results of each half of 1979 separately', () => {
+    // Scheckter: 60 points scored, 51 counted (best 4 of the first 7 rounds and of the last 8)
+    const scheckter1979 = [0, 1, 6, 6, 3, 9, 9, 0, 2, 3, 3, 6, 9, 3, 0];
+
+    expect(countedPoints(pointsSystemForSeason(1979), scheckter1979)).toBe(51);
+  });
+
+  test('counts every result without dropped results', () => {
+    expect(countedPoints(pointsSystemForSeason(2021), [25, 18, 0, 26])).toBe(69);
+  });
+});
+
+describe('shortened races', () => {
+  test.each([
+    [1, 0.3, 12.5],
+    [2, 0.3, 9],
+    [3, 0.3, 7.5],
+    [10, 0.3, 0.5],
+    [1, 0.8, 25],
+  ])('2021: P%i at %f of the distance scores %f', (position, distance, points) => {
+    expect(racePoints(pointsSystemForSeason(2021), position, distance)).toBe(points);
+  });
+
+  test.each([
+    [1, 0.2, 6],
+    [5, 0.2, 1],
+    [6, 0.2, 0],
+    [1, 0.4, 13],
+    [9, 0.4, 1],
+    [1, 0.6, 19],
+    [10, 0.6, 1],
+    [1, 0.75, 25],
+  ])('2022: P%i at %f of the distance scores %i', (position, distance, points) => {
+    expect(racePoints(pointsSystemForSeason(2022), position, distance)).toBe(points);
+  });
+
+  test('recognises the 2021 Belgian Grand Prix as a half-points race', () => {
+    const system = pointsSystemForSeason(2021);
+    const spa = {
+      season: 2021,
+      round: 12,
+      Results: [
+        result('max_verstappen', 1, 12.5),
+        result('russell', 2, 9),
+        result('hamilton', 3, 7.5),
+      ],
+    };
+
+    const distance = raceDistance(spa, system);
+
+    expect(distance).toBeLessThan(0.75);
+    expect(scoreRace(system, spa.Results, distance)).toEqual([12.5, 9, 7.5]);
+  });
+
+  test('places a 2022-rules race in the band its winner\'s points match', () => {
+    const race = { season: 2024, round: 1, Results: [result('max_verstappen', 1, 13)] };
+
+    expect(raceDistance(race, pointsSystemForSeason(2024))).toBe(0.375);
+  });
+
+  test('treats a race whose winner had full points (plus fastest lap) as full distance', () => {
+    const race = { season: 2019, round: 1, Results: [result('bottas', 1, 26)] };
+
+    expect(raceDistance(race, pointsSystemForSeason(2019))).toBe(1);
+  });
+});
+
+describe('scoreRace', () => {
+  test('splits a shared drive and adds the fastest lap (1951 French Grand Prix)', () => {
+    const results = [
+      result('fangio', 1, 5),
+      result('fagioli', 1, 4),
+      result('gonzalez', 2, 3),
+      result('ascari', 2, 3),
+      result('villoresi', 3, 4),
+    ];
+
+    const points = scoreRace(pointsSystemForSeason(1951), results, 1, new Set(['fangio']));
+
+    expect(points).toEqual([5, 4, 3, 3, 4]);
+  });
+
+  test('gives shared drives nothing from 1958', () => {
+    const results = [result('moss', 1), result('brooks', 2), result('lewis_evans', 2)];
+
+    expect(scoreRace(pointsSystemForSeason(1958), results)).toEqual([8, 0, 0]);
+  });
+
+  test('only awards the fastest lap inside the top ten from 2019', () => {
+    const system = pointsSystemForSeason(2019);
+    const results = [result('hamilton', 1), result('gasly', 11)];
+
+    expect(scoreRace(system, results, 1, new Set(['gasly']))).toEqual([25, 0]);
+    expect(scoreRace(system, results, 1, new Set(['hamilton']))).toEqual([26, 0]);
+  });
+
+  test('scores nothing for unclassified drivers', () => {
+    const results = [result('leclerc', 1), result('sainz', 'R')];
+
+    expect(scoreRace(pointsSystemForSeason(2022), results)).toEqual([25, 0]);
+  });
+});
+
+describe('sprints and weekend maxima', () => {
+  test('uses the 2021 and 2022 sprint tables', () => {
+    expect(sprintPoints(pointsSystemForSeason(2021), 1)).toBe(3);
+    expect(sprintPoints(pointsSystemForSeason(2021), 4)).toBe(0);
+    expect(sprintPoints(pointsSystemForSeason(2022), 8)).toBe(1);
+  });
+
+  test('adds race, fastest lap and sprint points for a constructor with two cars', () => {
+    expect(maxWeekendPoints(pointsSystemForSeason(2022), true, 2)).toBe(25 + 18 + 1 + 8 + 7);
+    expect(maxWeekendPoints(pointsSystemForSeason(2025), false, 2)).toBe(43);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for race control flag periods and incident grouping
+ * Run `npm run build` first; these import the compiled modules
+ */
+
+import { buildPeriods, groupIncidents, isNeutralisedPeriod } from '../build/utils/race-control.js';
+
+const at = minute => `2024-07-07T14:${String(minute).padStart(2, '0')}:00+00:00`;
+
+function message(minute, category, text, { flag = null, scope = null, sector = null, driver = null, lap = null } = {}) {
+  return { date: at(minute), category, message: text, flag, scope, sector, driver_number: driver, lap_number: lap };
+}
+
+const green = (minute, lap) => message(minute, 'Flag', 'GREEN LIGHT - PIT EXIT OPEN', { flag: 'GREEN', scope: 'Track', lap });
+const chequered = (minute, lap) => message(minute, 'Flag', 'CHEQUERED FLAG', { flag: 'CHEQUERED', scope: 'Track', lap });
+
+// Type, start and end minute of every period, for compact assertions
+const summary = periods => periods.map(period => [
+  period.type,
+  period.start.slice(14, 16),
+  period.end === null ? null : period.end.slice(14, 16),
+]);
+
+describe('buildPeriods', () => {
+  test('closes a safety car at the next green flag and fills green periods around it', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(20, 'SafetyCar', 'SAFETY CAR DEPLOYED', { lap: 12 }),
+      message(24, 'SafetyCar', 'SAFETY CAR IN THIS LAP', { lap: 14 }),
+      message(26, 'Flag', 'TRACK CLEAR', { flag: 'CLEAR', scope: 'Track', lap: 15 }),
+      chequered(50, 52),
+    ]);
+
+    expect(summary(periods)).toEqual([
+      ['green', '00', '20'],
+      ['sc', '20', '26'],
+      ['green', '26', '50'],
+      ['chequered', '50', '50'],
+    ]);
+    expect(periods[1]).toMatchObject({ start_lap: 12, end_lap: 15, message: 'SAFETY CAR DEPLOYED' });
+  });
+
+  test('ends a safety car at "in this lap" when no green flag follows', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(20, 'SafetyCar', 'SAFETY CAR DEPLOYED', { lap: 12 }),
+      message(24, 'SafetyCar', 'SAFETY CAR IN THIS LAP', { lap: 14 }),
+    ]);
+
+    expect(summary(periods.filter(isNeutralisedPeriod))).toEqual([['sc', '20', '24']]);
+    expect(summary(periods).at(-1)).toEqual(['green', '24', null]);
+  });
+
+  test('opens and closes a virtual safety car', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(10, 'SafetyCar', 'VIRTUAL SAFETY CAR DEPLOYED', { lap: 6 }),
+      message(12, 'SafetyCar', 'VIRTUAL SAFETY CAR ENDING', { lap: 7 }),
+      chequered(50, 52),
+    ]);
+
+    expect(summary(periods)).toEqual([
+      ['green', '00', '10'],
+      ['vsc', '10', '12'],
+      ['green', '12', '50'],
+      ['chequered', '50', '50'],
+    ]);
+  });
+
+  test('keeps a red flag open until racing resumes', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(5, 'Flag', 'RED FLAG', { flag: 'RED', scope: 'Track', lap: 3 }),
+      green(40, 3),
+      chequered(50, 10),
+    ]);
+
+    expect(summary(periods)).toEqual([
+      ['green', '00', '05'],
+      ['red', '05', '40'],
+      ['green', '40', '50'],
+      ['chequered', '50', '50'],
+    ]);
+  });
+
+  test('tracks sector yellows separately and clears them by sector', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(10, 'Flag', 'YELLOW IN TRACK SECTOR 5', { flag: 'YELLOW', scope: 'Sector', sector: 5 }),
+      message(11, 'Flag', 'DOUBLE YELLOW IN TRACK SECTOR 7', { flag: 'DOUBLE YELLOW', scope: 'Sector', sector: 7 }),
+      message(12, 'Flag', 'CLEAR IN TRACK SECTOR 5', { flag: 'CLEAR', scope: 'Sector', sector: 5 }),
+      message(15, 'Flag', 'CLEAR IN TRACK SECTOR 7', { flag: 'CLEAR', scope: 'Sector', sector: 7 }),
+      chequered(50, 52),
+    ]);
+
+    const yellows = periods.filter(period => period.sector !== null);
+    expect(yellows.map(period => [period.type, period.sector, period.end.slice(14, 16)])).toEqual([
+      ['yellow', 5, '12'],
+      ['double_yellow', 7, '15'],
+    ]);
+    // Yellows do not interrupt the green period
+    expect(summary(periods.filter(period => period.type === 'green'))).toEqual([['green', '00', '50']]);
+  });
+
+  test('ends every open flag at a track-wide green', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(10, 'Flag', 'YELLOW IN TRACK SECTOR 2', { flag: 'YELLOW', scope: 'Sector', sector: 2 }),
+      message(11, 'Flag', 'RED FLAG', { flag: 'RED', scope: 'Track' }),
+      green(30, 8),
+    ]);
+
+    expect(periods.filter(period => period.type !== 'green').map(period => [period.type, period.end.slice(14, 16)])).toEqual([
+      ['yellow', '30'],
+      ['red', '30'],
+    ]);
+  });
+
+  test('does not open a second period for a repeated deployment message', () => {
+    const periods = buildPeriods([
+      green(0, 1),
+      message(5, 'Flag', 'RED FLAG', { flag: 'RED', scope: 'Track' }),
+      message(6, 'Flag', 'RED FLAG', { flag: 'RED', scope: 'Track' }),
+      green(20, 4),
+    ]);
+
+    expect(periods.filter(period => period.type === 'red')).toHaveLength(1);
+  });
+
+  test('returns nothing without messages', () => {
+    expect(buildPeriods([])).toEqual([]);
+  });
+});
+
+describe('groupIncidents', () => {
+  test('groups investigations and penalties by every car involved', () => {
+    const incidents = groupIncidents([
+      message(10, 'Other', 'TURN 1 INCIDENT INVOLVING CARS 1 (VER) AND 4 (NOR) NOTED', { lap: 5 }),
+      message(12, 'Other', 'FIA STEWARDS: 10 SECOND TIME PENALTY FOR CAR 1 (VER) - CAUSING A COLLISION', { driver: 1, lap: 7 }),
+      message(14, 'Other', 'CAR 44 (HAM) TIME 1:29.100 DELETED - TRACK LIMITS AT TURN 9', { driver: 44, lap: 9 }),
+      message(15, 'Flag', 'BLACK AND WHITE FLAG FOR CAR 16 (LEC) - TRACK LIMITS', { flag: 'BLACK AND WHITE', driver: 16 }),
+      message(16, 'Other', 'DRS ENABLED'),
+    ]);
+
+    expect(incidents.map(({ driver_number, incidents }) => [driver_number, incidents.map(incident => incident.type)])).toEqual([
+      ['1', ['investigation', 'penalty']],
+      ['4', ['investigation']],
+      ['16', ['warning']],
+      ['44', ['lap_deleted']],
+    ]);
+  });
+
+  test('marks an incident reviewed without action as cleared', () => {
+    const [driver] = groupIncidents([
+      message(20, 'Other', 'FIA STEWARDS: TURN 4 INCIDENT INVOLVING CAR 63 (RUS) REVIEWED NO FURTHER INVESTIGATION', { driver: 63 }),
+    ]);
+
+    expect(driver.incidents[0].type).toBe('cleared');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the stint model (clean-lap selection and degradation fit)
+ * Run `npm run build` first; these import the compiled modules
+ */
+
+import {
+  FUEL_EFFECT_SECONDS_PER_LAP,
+  fitStint,
+  fuelCorrected,
+  neutralisedWindows,
+  pooledDegradation,
+} from '../build/utils/stint-model.js';
+
+const TOTAL_LAPS = 50;
+const RACE_START = Date.parse('2024-03-02T15:03:00Z');
+const LAP_SECONDS = 95;
+
+const stint = {
+  meeting_key: 1229,
+  session_key: 9472,
+  driver_number: 1,
+  stint_number: 2,
+  lap_start: 11,
+  lap_end: 20,
+  compound: 'HARD',
+  tyre_age_at_start: 0,
+};
+
+const lapStart = lapNumber => new Date(RACE_START + (lapNumber - 1) * LAP_SECONDS * 1000).toISOString();
+
+/**
+ * A lap whose fuel-corrected time is 90s plus `degradation` per lap of tyre age
+ */
+function lap(lapNumber, { degradation = 0.1, extra = 0, pitOut = false } = {}) {
+  const tyreAge = lapNumber - stint.lap_start;
+  return {
+    meeting_key: 1229,
+    session_key: 9472,
+    driver_number: 1,
+    lap_number: lapNumber,
+    date_start: lapStart(lapNumber),
+    lap_duration: 90 + degradation * tyreAge + FUEL_EFFECT_SECONDS_PER_LAP * (TOTAL_LAPS - lapNumber) + extra,
+    duration_sector_1: null,
+    duration_sector_2: null,
+    duration_sector_3: null,
+    i1_speed: null,
+    i2_speed: null,
+    st_speed: null,
+    is_pit_out_lap: pitOut,
+  };
+}
+
+const stintLaps = (overrides = {}) => Array.from({ length: 10 }, (_, i) => {
+  const lapNumber = stint.lap_start + i;
+  return lap(lapNumber, { pitOut: lapNumber === stint.lap_start, ...overrides[lapNumber] });
+});
+
+describe('fuelCorrected', () => {
+  test('removes the fuel still to burn', () => {
+    const first = { ...lap(1), lap_duration: 95 };
+
+    expect(fuelCorrected(first, TOTAL_LAPS)).toBeCloseTo(95 - 49 * 0.06, 6);
+  });
+
+  test('leaves the last lap unchanged', () => {
+    const last = lap(TOTAL_LAPS);
+
+    expect(fuelCorrected(last, TOTAL_LAPS)).toBe(last.lap_duration);
+  });
+});
+
+describe('fitStint', () => {
+  test('fits degradation on fuel-corrected times', () => {
+    const fit = fitStint(stint, stintLaps(), { totalLaps: TOTAL_LAPS, finalStint: false });
+
+    // Raw lap times get faster as fuel burns off; corrected they lose 0.1s a lap
+    expect(fit.degradation).toBe(0.1);
+    expect(fit.samples.map(sample => sample.lap_number)).toEqual([12, 13, 14, 15, 16, 17, 18, 19]);
+    expect(fit.samples[0].tyre_age).toBe(1);
+  });
+
+  test('leaves out the pit out lap and the in lap', () => {
+    const fit = fitStint(stint, stintLaps(), { totalLaps: TOTAL_LAPS, finalStint: false });
+
+    expect(fit.excluded.in_out).toBe(2);
+    expect(fit.samples.some(sample => sample.lap_number === 20)).toBe(false);
+  });
+
+  test('keeps the last lap of the final stint', () => {
+    const fit = fitStint(stint, stintLaps(), { totalLaps: 20, finalStint: true });
+
+    expect(fit.excluded.in_out).toBe(1);
+    expect(fit.samples.at(-1).lap_number).toBe(20);
+  });
+
+  test('leaves out slow outlier laps without skewing the fit', () => {
+    const fit = fitStint(stint, stintLaps({ 15: { extra: 12 } }), { totalLaps: TOTAL_LAPS, finalStint: false });
+
+    expect(fit.excluded.outliers).toBe(1);
+    expect(fit.samples.some(sample => sample.lap_number === 15)).toBe(false);
+    expect(fit.degradation).toBe(0.1);
+  });
+
+  test('leaves out laps run under a safety car and in traffic', () => {
+    const safetyCar = { start: Date.parse(lapStart(14)) + 30000, end: Date.parse(lapStart(15)) + 10000 };
+    const intervals = [
+      { meeting_key: 1229, session_key: 9472, driver_number: 1, date: lapStart(17), gap_to_leader: 3.1, interval: 0.6 },
+      { meeting_key: 1229, session_key: 9472, driver_number: 1, date: lapStart(18), gap_to_leader: 3.4, interval: 1.4 },
+    ];
+
+    const fit = fitStint(stint, stintLaps(), {
+      totalLaps: TOTAL_LAPS,
+      finalStint: false,
+      neutralised: [safetyCar],
+      intervals,
+    });
+
+    expect(fit.excluded).toEqual({ in_out: 2, neutralised: 2, traffic: 1, outliers: 0 });
+    expect(fit.samples.map(sample => sample.lap_number)).toEqual([12, 13, 16, 18, 19]);
+    expect(fit.degradation).toBe(0.1);
+  });
+
+  test('reports no degradation with fewer than three clean laps', () => {
+    const laps = stintLaps().filter(l => l.lap_number <= 13);
+
+    const fit = fitStint(stint, laps, { totalLaps: TOTAL_LAPS, finalStint: false });
+
+    expect(fit.samples).toHaveLength(2);
+    expect(fit.degradation).toBeNull();
+    expect(fit.average_time).not.toBeNull();
+  });
+
+  test('skips untimed laps', () => {
+    const laps = stintLaps();
+    laps[3].lap_duration = null;
+
+    const fit = fitStint(stint, laps, { totalLaps: TOTAL_LAPS, finalStint: false });
+
+    expect(fit.samples.some(sample => sample.lap_number === 14)).toBe(false);
+  });
+});
+
+describe('pooledDegradation', () => {
+  test('pools stints of cars with different pace', () => {
+    const fast = fitStint(stint, stintLaps(), { totalLaps: TOTAL_LAPS, finalStint: false }).samples;
+    const slow = fast.map(sample => ({ ...sample, fuel_corrected: sample.fuel_corrected + 1.5 }));
+
+    expect(pooledDegradation([fast, slow])).toBe(0.1);
+  });
+});
+
+describe('neutralisedWindows', () => {
+  test('turns safety car messages into time windows', () => {
+    const messages = [
+      { date: '2024-03-02T15:03:00Z', category: 'Flag', message: 'GREEN LIGHT - PIT EXIT OPEN', flag: 'GREEN', scope: 'Track', sector: null, driver_number: null },
+      { date: '2024-03-02T15:30:00Z', category: 'SafetyCar', message: 'SAFETY CAR DEPLOYED', flag: null, scope: null, sector: null, driver_number: null },
+      { date: '2024-03-02T15:36:00Z', category: 'Flag', message: 'TRACK CLEAR', flag: 'CLEAR', scope: 'Track', sector: null, driver_number: null },
+    ];
+
+    expect(neutralisedWindows(messages)).toEqual([
+      { start: Date.parse('2024-03-02T15:30:00Z'), end: Date.parse('2024-03-02T15:36:00Z') },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+
+/**
+ * f1-mcp command line
+ * `f1-mcp ingest` pre-fetches a season into the server's response cache, and
+ * into the Postgres warehouse when POSTGRES_ENABLED is set. It reads the same
+ * environment variables as the server.
+ */
+
+import { parseArgs } from "util";
+import { backfill, BackfillEvent } from "./services/backfill.service.js";
+import { defaultCheckpointPath, IngestCheckpoint } from "./storage/ingest-checkpoint.js";
+import { IngestionSource } from "./storage/warehouse-types.js";
+import { closeRedis } from "./storage/redis-client.js";
+import { closePostgres } from "./storage/postgres-client.js";
+import { config } from "./config/index.js";
+
+const USAGE = `Usage: f1-mcp ingest --season <year> [options]
+
+Pre-fetch every result, qualifying, lap, pit stop, stint, weather and race
+control payload of a season into the response cache, and into the Postgres
+warehouse when POSTGRES_ENABLED is set. Progress is checkpointed after each
+task, so running the same command again resumes where it stopped.
+
+Options:
+  --season <year>     Season to ingest (required)
+  --sources <list>    Comma-separated ergast,openf1 (default: both from 2023, ergast before)
+  --round <number>    Only ingest this round
+  --interval <ms>     Minimum gap between requests to the same API (default: 500)
+  --state <file>      Checkpoint file (default: <CACHE_DIR>/ingest/<season>.json)
+  --restart           Ignore the checkpoint and fetch everything again
+  -h, --help          Show this help
+`;
+
+const SOURCES: IngestionSource[] = ["ergast", "openf1"];
+const DEFAULT_INTERVAL_MS = 500;
+
+class UsageError extends Error {}
+
+function parseInteger(option: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${option} must be a whole number (got "${value}")`);
+  }
+  return Number(value);
+}
+
+function parseSources(value: string | undefined): IngestionSource[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const sources = value.split(",").map(source => source.trim().toLowerCase()).filter(Boolean);
+  const unknown = sources.filter(source => !SOURCES.includes(source as IngestionSource));
+  if (sources.length === 0 || unknown.length > 0) {
+    throw new UsageError(`--sources must list ${SOURCES.join(" and/or ")} (got "${value}")`);
+  }
+  return [...new Set(sources)] as IngestionSource[];
+}
+
+function printProgress(event: BackfillEvent): void {
+  if (event.type === "planned") {
+    console.log(`${event.total} tasks, ${event.completed} already completed`);
+    return;
+  }
+  const counter = `[${String(event.index).padStart(String(event.total).length)}/${event.total}]`;
+  switch (event.type) {
+    case "done":
+      console.log(`${counter} ${event.task}`);
+      break;
+    case "retry":
+      console.log(`${counter} ${event.task}: ${event.error}, retrying in ${Math.round(event.delayMs / 1000)}s`);
+      break;
+    case "failed":
+      console.log(`${counter} ${event.task}: FAILED (${event.error})`);
+      break;
+    // Skipped tasks are counted in the "planned" line
+  }
+}
+
+async function ingest(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      season: { type: "string" },
+      sources: { type: "string" },
+      round: { type: "string" },
+      interval: { type: "string" },
+      state: { type: "string" },
+      restart: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const season = parseInteger("season", values.season);
+  if (season === undefined) {
+    throw new UsageError("--season is required");
+  }
+  const round = parseInteger("round", values.round);
+  const sources = parseSources(values.sources);
+  const intervalMs = parseInteger("interval", values.interval) ?? DEFAULT_INTERVAL_MS;
+
+  // The file backend keeps immutable responses only; Redis and the warehouse keep everything
+  const persistent = config.postgresEnabled ||
+    (config.cacheEnabled && (config.redisEnabled || config.cacheBackend === "file"));
+  if (!persistent) {
+    console.error(
+      "Nothing would outlive this run. Enable CACHE_ENABLED with CACHE_BACKEND=file or REDIS_ENABLED, or set POSTGRES_ENABLED."
+    );
+    return 1;
+  }
+  if (season >= new Date().getUTCFullYear() && !config.redisEnabled && !config.postgresEnabled) {
+    console.error(
+      `Note: ${season} Ergast responses are still volatile, so the file cache only keeps its ended OpenF1 sessions. ` +
+      "Use REDIS_ENABLED or POSTGRES_ENABLED to keep the rest."
+    );
+  }
+
+  const checkpoint = await IngestCheckpoint.load(values.state ?? defaultCheckpointPath(season), season, values.restart);
+  console.log(`Ingesting ${season}${round !== undefined ? ` round ${round}` : ""} (checkpoint ${checkpoint.file})`);
+
+  const result = await backfill.backfillSeason(season, { sources, round, checkpoint, intervalMs, onProgress: printProgress });
+
+  const stored = result.warehouse ? "cache and warehouse" : "cache";
+  console.log(
+    `Finished in ${Math.round(result.duration_ms / 1000)}s: ${result.fetched} tasks fetched into the ${stored}, ` +
+    `${result.skipped} already done, ${result.failures.length} failed`
+  );
+  if (result.aborted) {
+    console.log(`Stopped early: ${result.aborted}. Run the same command again later to resume.`);
+  } else if (result.failures.length > 0) {
+    console.log("Run the same command again to retry the failed tasks.");
+  }
+  return result.failures.length > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    switch (command) {
+      case "ingest":
+        return await ingest(args);
+      case "help":
+      case "-h":
+      case "--help":
+        process.stdout.write(USAGE);
+        return 0;
+      default:
+        throw new UsageError(command ? `Unknown command "${command}"` : "Missing command");
+    }
+  } catch (error: any) {
+    if (error instanceof UsageError || String(error.code).startsWith("ERR_PARSE_ARGS")) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error(`Error: ${error.message}`);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(async code => {
+  await Promise.allSettled([closeRedis(), closePostgres()]);
+  // Service singletons keep timers alive, so exit explicitly once storage is closed
+  process.exit(code);
+});
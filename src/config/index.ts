@@ -3,11 +3,15 @@
  * Loads from environment variables with sensible defaults
  */
 
+import os from 'os';
+import path from 'path';
+
 export interface ServerConfig {
   // Server
   port: number;
   nodeEnv: 'development' | 'production' | 'test';
   apiVersion: string;
+  mcpSessionIdleTimeoutMs: number;
   
   // Security
   apiKeyRequired: boolean;
@@ -40,6 +44,8 @@ export interface ServerConfig {
   cacheEnabled: boolean;
   cacheTTL: number; // seconds
   liveCacheTTL: number; // seconds
+  cacheBackend: 'memory' | 'file';
+  cacheDir: string;
   
   // Monitoring
   metricsEnabled: boolean;
@@ -52,6 +58,9 @@ export interface ServerConfig {
   // External APIs
   openf1BaseUrl: string;
   fastf1BaseUrl: string;
+  ergastPageSize: number;
+  ergastMaxRows: number;
+  ergastPageConcurrency: number;
   
   // OpenF1 Live Data / Streaming
   openf1Username?: string;
@@ -80,6 +89,33 @@ function parseStringArray(value: string | undefined, defaultValue: string[]): st
   return value.split(',').map(s => s.trim()).filter(s => s.length > 0);
 }
 
+const CACHE_BACKENDS = ['memory', 'file'] as const;
+
+function parseCacheBackend(value: string | undefined): ServerConfig['cacheBackend'] {
+  if (value === undefined || value === '') return 'file';
+  const backend = CACHE_BACKENDS.find(name => name === value.toLowerCase());
+  if (!backend) {
+    // The logger reads this config, so warn on stderr directly
+    console.error(`Unknown CACHE_BACKEND "${value}", expected ${CACHE_BACKENDS.join(' or ')}; using file`);
+    return 'file';
+  }
+  return backend;
+}
+
+// Per-user cache directory, so stdio launches do not write into whatever
+// working directory the MCP host starts the server in
+function defaultCacheDir(): string {
+  const home = os.homedir();
+  switch (process.platform) {
+    case 'win32':
+      return path.join(process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'), 'f1-mcp', 'cache');
+    case 'darwin':
+      return path.join(home, 'Library', 'Caches', 'f1-mcp');
+    default:
+      return path.join(process.env.XDG_CACHE_HOME || path.join(home, '.cache'), 'f1-mcp');
+  }
+}
+
 export function loadConfig(): ServerConfig {
   const nodeEnv = (process.env.NODE_ENV || 'development') as 'development' | 'production' | 'test';
   
@@ -88,6 +124,7 @@ export function loadConfig(): ServerConfig {
     port: parseNumber(process.env.PORT, 3000),
     nodeEnv,
     apiVersion: process.env.API_VERSION || 'v1',
+    mcpSessionIdleTimeoutMs: parseNumber(process.env.MCP_SESSION_IDLE_TIMEOUT_MS, 1800000), // 30 minutes
     
     // Security
     apiKeyRequired: parseBoolean(process.env.API_KEY_REQUIRED, false),
@@ -120,6 +157,8 @@ export function loadConfig(): ServerConfig {
     cacheEnabled: parseBoolean(process.env.CACHE_ENABLED, true),
     cacheTTL: parseNumber(process.env.CACHE_TTL, 300), // 5 minutes
     liveCacheTTL: parseNumber(process.env.LIVE_CACHE_TTL, 10), // 10 seconds
+    cacheBackend: parseCacheBackend(process.env.CACHE_BACKEND),
+    cacheDir: process.env.CACHE_DIR || defaultCacheDir(),
     
     // Monitoring
     metricsEnabled: parseBoolean(process.env.METRICS_ENABLED, false),
@@ -132,6 +171,9 @@ export function loadConfig(): ServerConfig {
     // External APIs
     openf1BaseUrl: process.env.OPENF1_BASE_URL || 'https://api.openf1.org/v1',
     fastf1BaseUrl: process.env.FASTF1_BASE_URL || 'https://api.jolpi.ca/ergast/f1',
+    ergastPageSize: parseNumber(process.env.ERGAST_PAGE_SIZE, 100), // Jolpica maximum
+    ergastMaxRows: parseNumber(process.env.ERGAST_MAX_ROWS, 5000),
+    ergastPageConcurrency: parseNumber(process.env.ERGAST_PAGE_CONCURRENCY, 2),
     
     // OpenF1 Live Data / Streaming
     openf1Username: process.env.OPENF1_USERNAME,
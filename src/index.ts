@@ -3,8 +3,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import express from "express";
-import { F1DataService } from "./services/f1-data.service.js";
-import { z } from "zod";
+import { registerTools } from "./tools/registry.js";
+import { registerResources } from "./resources/registry.js";
+import { registerPrompts } from "./prompts/registry.js";
+import { StreamableHttpSessionManager } from "./transport/streamable-http.js";
 import { config } from "./config/index.js";
 import { logger } from "./utils/logger.js";
 import { requestIdMiddleware, RequestWithId } from "./middleware/request-id.js";
@@ -13,401 +15,17 @@ import { authMiddleware } from "./middleware/auth.js";
 import { validateBodyMiddleware, validateQueryMiddleware } from "./middleware/validator.js";
 import { setupGracefulShutdown } from "./utils/graceful-shutdown.js";
 import { metrics, trackRequestMetrics } from "./utils/metrics.js";
-
-const f1Service = F1DataService.getInstance();
-
-// Helper function to format MCP responses with proper error handling
-function formatMCPResponse(data: any, context?: string) {
-  try {
-    // Handle null or undefined
-    if (data === null || data === undefined) {
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({ 
-            message: "No data available",
-            context: context || "unknown"
-          })
-        }]
-      };
-    }
-
-    // Handle empty arrays
-    if (Array.isArray(data) && data.length === 0) {
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({ 
-            message: "No data available",
-            context: context || "query returned empty results",
-            suggestion: context?.includes('live') 
-              ? "Live data is only available during active F1 sessions. Use historical data tools instead."
-              : "Try adjusting your query parameters or check data availability."
-          })
-        }]
-      };
-    }
-
-    // Ensure text is a string
-    const textContent = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
-    
-    return {
-      content: [{
-        type: "text" as const,
-        text: textContent
-      }]
-    };
-  } catch (error: any) {
-    return {
-      content: [{
-        type: "text" as const,
-        text: JSON.stringify({ 
-          error: "Response formatting error",
-          message: error.message,
-          context: context || "unknown"
-        })
-      }]
-    };
-  }
-}
-
-// Helper function to register all tools on a server instance
-function registerAllTools(mcpServer: McpServer) {
-  // Live data endpoints
-  mcpServer.tool("getLiveTimingData", {}, async () => {
-    const data = await f1Service.getLiveTimingData();
-    if (data.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              message:
-                "No live F1 session data available at the moment. Please check back during a race weekend.",
-            }),
-          },
-        ],
-      };
-    }
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-
-  mcpServer.tool("getCurrentSessionStatus", {}, async () => {
-    const data = await f1Service.getCurrentSessionStatus();
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-
-  mcpServer.tool("getDriverInfo", { driverId: z.string() }, async ({ driverId }) => {
-    const data = await f1Service.getDriverInfo(driverId);
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-
-  // Tool to find historical session keys
-  mcpServer.tool(
-    "getHistoricalSessions",
-    {
-      year: z.number().optional(),
-      circuit_short_name: z.string().optional(),
-      session_name: z.string().optional(),
-      country_name: z.string().optional(),
-      location: z.string().optional(),
-    },
-    async (filters) => {
-      const data = await f1Service.getHistoricalSessions(filters);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  // Historic data endpoints
-  mcpServer.tool(
-    "getHistoricRaceResults",
-    {
-      year: z.number(),
-      round: z.number(),
-    },
-    async ({ year, round }) => {
-      try {
-        const data = await f1Service.getHistoricRaceResults(year, round);
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify(data) }],
-        };
-      } catch (error: any) {
-        logger.error('getHistoricRaceResults error', { year, round, error: error.message });
-        // Return empty race object structure
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify({ Results: [] }) }],
-        };
-      }
-    }
-  );
-
-  mcpServer.tool(
-    "getDriverStandings",
-    {
-      year: z.number(),
-    },
-    async ({ year }) => {
-      const data = await f1Service.getDriverStandings(year);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getConstructorStandings",
-    {
-      year: z.number(),
-    },
-    async ({ year }) => {
-      const data = await f1Service.getConstructorStandings(year);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getLapTimes",
-    {
-      year: z.number(),
-      round: z.number(),
-      driverId: z.string(),
-    },
-    async ({ year, round, driverId }) => {
-      const data = await f1Service.getLapTimes(year, round, driverId);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  // New OpenF1 API tools
-  mcpServer.tool(
-    "getWeatherData",
-    {
-      sessionKey: z.string().describe('Session key from getHistoricalSessions. Required for accurate weather data.'),
-    },
-    async ({ sessionKey }) => {
-      const data = await f1Service.getWeatherData(sessionKey);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getCarData",
-    {
-      driverNumber: z.string(),
-      sessionKey: z.string().describe('Session key from getHistoricalSessions. Required for car telemetry data.'),
-      filters: z.string().optional(),
-    },
-    async ({ driverNumber, sessionKey, filters }) => {
-      const data = await f1Service.getCarData(driverNumber, sessionKey, filters);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getPitStopData",
-    {
-      sessionKey: z.string().optional(),
-      driverNumber: z.string().optional(),
-    },
-    async ({ sessionKey, driverNumber }) => {
-      const data = await f1Service.getPitStopData(sessionKey, driverNumber);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getTeamRadio",
-    {
-      sessionKey: z.string().describe('Session key from getHistoricalSessions'),
-      driverNumber: z.string().optional().describe('Filter by specific driver number'),
-    },
-    async ({ sessionKey, driverNumber }) => {
-      const data = await f1Service.getTeamRadio(
-        sessionKey,
-        driverNumber || ""
-      );
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getRaceControlMessages",
-    {
-      sessionKey: z.string().describe('Session key from getHistoricalSessions'),
-    },
-    async ({ sessionKey }) => {
-      const data = await f1Service.getRaceControlMessages(sessionKey);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  // New Ergast API tools
-  mcpServer.tool(
-    "getRaceCalendar",
-    {
-      year: z.number(),
-    },
-    async ({ year }) => {
-      const data = await f1Service.getRaceCalendar(year);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getCircuitInfo",
-    {
-      circuitId: z.string(),
-    },
-    async ({ circuitId }) => {
-      const data = await f1Service.getCircuitInfo(circuitId);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getSeasonList",
-    {
-      limit: z.number().optional(),
-    },
-    async ({ limit }) => {
-      const data = await f1Service.getSeasonList(limit);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getQualifyingResults",
-    {
-      year: z.number(),
-      round: z.number(),
-    },
-    async ({ year, round }) => {
-      try {
-        const data = await f1Service.getQualifyingResults(year, round);
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify(data) }],
-        };
-      } catch (error: any) {
-        logger.error('getQualifyingResults error', { year, round, error: error.message });
-        // Return empty qualifying object structure
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify({ QualifyingResults: [] }) }],
-        };
-      }
-    }
-  );
-
-  mcpServer.tool(
-    "getDriverInformation",
-    {
-      driverId: z.string(),
-    },
-    async ({ driverId }) => {
-      const data = await f1Service.getDriverInformation(driverId);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  mcpServer.tool(
-    "getConstructorInformation",
-    {
-      constructorId: z.string(),
-    },
-    async ({ constructorId }) => {
-      const data = await f1Service.getConstructorInformation(constructorId);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-      };
-    }
-  );
-
-  // Utility tools
-  mcpServer.tool("clearCache", {}, async () => {
-    f1Service.clearCache();
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ message: "Cache cleared successfully" }),
-        },
-      ],
-    };
-  });
-  
-  // New Live Streaming Tools
-  mcpServer.tool("getLiveCarData", {}, async () => {
-    const data = await f1Service.getLiveCarData();
-    // Service returns empty array if no live data, which is valid
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-  
-  mcpServer.tool("getLivePositions", {}, async () => {
-    const data = await f1Service.getLivePositions();
-    // Service returns empty array if no live data, which is valid
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-  
-  mcpServer.tool("getLiveRaceControl", {}, async () => {
-    const data = await f1Service.getLiveRaceControl();
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-  
-  mcpServer.tool("getLiveTeamRadio", {}, async () => {
-    const data = await f1Service.getLiveTeamRadio();
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  });
-  
-  mcpServer.tool("getLiveWeather", {}, async () => {
-    const data = await f1Service.getLiveWeather();
-    // Service returns null if no live data, which is valid
-    return formatMCPResponse(data || { message: "No weather data available" }, "live weather");
-  });
-}
+import { closeRedis, isRedisReady } from "./storage/redis-client.js";
+import { closePostgres, isPostgresReady } from "./storage/postgres-client.js";
 
 export function createServer(): McpServer {
   const server = new McpServer({
     name: "f1-mcp-server",
     version: "1.0.0",
   });
-  registerAllTools(server);
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
   return server;
 }
 
@@ -461,8 +79,9 @@ if (process.env.PORT || config.port) {
   if (config.enableCors) {
     app.use((req, res, next) => {
       res.header('Access-Control-Allow-Origin', config.corsOrigin);
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, X-API-Key, X-Request-Id');
+      res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Accept, X-API-Key, X-Request-Id, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id, X-Request-Id');
       if (req.method === 'OPTIONS') {
         return res.sendStatus(200);
       }
@@ -505,9 +124,9 @@ if (process.env.PORT || config.port) {
     // Add checks for dependencies (Redis, Postgres, etc.) here
     const checks: Record<string, boolean> = {
       server: true,
+      ...(config.redisEnabled ? { redis: isRedisReady() } : {}),
+      ...(config.postgresEnabled ? { postgres: isPostgresReady() } : {}),
       // Add more checks as needed
-      // redis: redisClient.isReady(),
-      // postgres: postgresClient.isConnected(),
     };
 
     const allReady = Object.values(checks).every(v => v === true);
@@ -544,209 +163,42 @@ if (process.env.PORT || config.port) {
       version: "1.0.0",
       apiVersion: config.apiVersion,
       endpoint: `/mcp/${config.apiVersion}`,
+      transport: "streamable-http",
     });
   });
 
-  // MCP JSON-RPC endpoint
-  app.post(`/mcp/${config.apiVersion}`, async (req: RequestWithId, res) => {
-    const body = req.body ?? {};
-    const id = body.id ?? null;
-    const method = body.method ?? "";
-    const params = body.params ?? {};
+  // MCP Streamable HTTP endpoint (POST messages, GET SSE stream, DELETE session)
+  const mcpEndpoint = `/mcp/${config.apiVersion}`;
+  const sessionManager = new StreamableHttpSessionManager(createServer);
 
+  app.post(mcpEndpoint, async (req: RequestWithId, res, next) => {
     logger.debug('MCP request', {
       requestId: req.requestId,
-      method,
-      id,
+      sessionId: req.headers['mcp-session-id'],
+      method: req.body?.method,
     });
 
-    if (method === "initialize") {
-      return res.json({
-        jsonrpc: "2.0",
-        id,
-        result: {
-          protocolVersion: "2025-06-18",
-          serverInfo: { name: "f1-mcp-server", version: "1.0.0" },
-          capabilities: {},
-        },
-      });
+    try {
+      await sessionManager.handlePost(req, res);
+    } catch (error) {
+      next(error);
     }
+  });
 
-    if (method === "tools/list") {
-      // Return list of available tools - manually maintained list
-      const tools = [
-        { name: "getLiveTimingData", description: "Get live F1 timing data", inputSchema: { type: "object", properties: {} } },
-        { name: "getCurrentSessionStatus", description: "Get current F1 session status", inputSchema: { type: "object", properties: {} } },
-        { name: "getDriverInfo", description: "Get driver bio information (Ergast API)", inputSchema: { type: "object", properties: { driverId: { type: "string", description: "Driver ID (e.g., 'hamilton', 'verstappen')" } }, required: ["driverId"] } },
-        { name: "getHistoricalSessions", description: "Find historical F1 sessions", inputSchema: { type: "object", properties: {} } },
-        { name: "getHistoricRaceResults", description: "Get historic race results", inputSchema: { type: "object", properties: { year: { type: "number" }, round: { type: "number" } }, required: ["year", "round"] } },
-        { name: "getDriverStandings", description: "Get driver standings", inputSchema: { type: "object", properties: { year: { type: "number" } }, required: ["year"] } },
-        { name: "getConstructorStandings", description: "Get constructor standings", inputSchema: { type: "object", properties: { year: { type: "number" } }, required: ["year"] } },
-        { name: "getWeatherData", description: "Get weather data", inputSchema: { type: "object", properties: { sessionKey: { type: "string" } }, required: ["sessionKey"] } },
-        { name: "getCarData", description: "Get car telemetry data (requires sessionKey, auto-adds speed>=0 filter)", inputSchema: { type: "object", properties: { sessionKey: { type: "string", description: "Required: Session key to query" }, driverNumber: { type: "string", description: "Driver number" }, filters: { type: "string", description: "Optional filters like 'speed>=300' or 'lap_number=1'" } }, required: ["sessionKey", "driverNumber"] } },
-        { name: "getPitStopData", description: "Get pit stop data", inputSchema: { type: "object", properties: { sessionKey: { type: "string" } }, required: ["sessionKey"] } },
-        { name: "getTeamRadio", description: "Get team radio communications (may not be available for all historical sessions)", inputSchema: { type: "object", properties: { sessionKey: { type: "string", description: "Session key" }, driverNumber: { type: "string", description: "Optional: Filter by specific driver number" } }, required: ["sessionKey"] } },
-        { name: "getRaceControlMessages", description: "Get race control messages", inputSchema: { type: "object", properties: { sessionKey: { type: "string" } }, required: ["sessionKey"] } },
-        { name: "getRaceCalendar", description: "Get F1 race calendar", inputSchema: { type: "object", properties: { year: { type: "number" } }, required: ["year"] } },
-        { name: "getLapTimes", description: "Get lap times", inputSchema: { type: "object", properties: { year: { type: "number" }, round: { type: "number" }, driverId: { type: "string" } }, required: ["year", "round", "driverId"] } },
-        { name: "getQualifyingResults", description: "Get qualifying results", inputSchema: { type: "object", properties: { year: { type: "number" }, round: { type: "number" } }, required: ["year", "round"] } },
-        { name: "getCircuitInfo", description: "Get circuit information", inputSchema: { type: "object", properties: { circuitId: { type: "string" } }, required: ["circuitId"] } },
-        { name: "getSeasonList", description: "Get list of F1 seasons", inputSchema: { type: "object", properties: {} } },
-        { name: "getDriverInformation", description: "Get driver information", inputSchema: { type: "object", properties: { driverId: { type: "string" } }, required: ["driverId"] } },
-        { name: "getConstructorInformation", description: "Get constructor information", inputSchema: { type: "object", properties: { constructorId: { type: "string" } }, required: ["constructorId"] } },
-        { name: "clearCache", description: "Clear server cache", inputSchema: { type: "object", properties: {} } },
-      ];
-      
-      return res.json({
-        jsonrpc: "2.0",
-        id,
-        result: { tools },
-      });
+  app.get(mcpEndpoint, async (req: RequestWithId, res, next) => {
+    try {
+      await sessionManager.handleSessionRequest(req, res);
+    } catch (error) {
+      next(error);
     }
+  });
 
-    if (method === "tools/call") {
-      try {
-        const toolName = params.name;
-        const toolArgs = params.arguments || {};
-        
-        let result;
-        
-        // Execute tool based on name
-        switch (toolName) {
-          case "getLiveTimingData": {
-            const data = await f1Service.getLiveTimingData();
-            result = {
-              content: [{ type: "text", text: JSON.stringify(data.length > 0 ? data : { message: "No live F1 session data available" }) }],
-            };
-            break;
-          }
-          case "getCurrentSessionStatus": {
-            const data = await f1Service.getCurrentSessionStatus();
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getDriverInfo": {
-            const data = await f1Service.getDriverInfo(toolArgs.driverId);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getHistoricalSessions": {
-            const data = await f1Service.getHistoricalSessions(toolArgs);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getHistoricRaceResults": {
-            const data = await f1Service.getHistoricRaceResults(toolArgs.year, toolArgs.round);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getDriverStandings": {
-            const data = await f1Service.getDriverStandings(toolArgs.year);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getConstructorStandings": {
-            const data = await f1Service.getConstructorStandings(toolArgs.year);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getWeatherData": {
-            const data = await f1Service.getWeatherData(toolArgs.sessionKey);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getCarData": {
-            const data = await f1Service.getCarData(toolArgs.driverNumber, toolArgs.sessionKey, toolArgs.filters);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getPitStopData": {
-            const data = await f1Service.getPitStopData(toolArgs.sessionKey, toolArgs.driverNumber);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getTeamRadio": {
-            const data = await f1Service.getTeamRadio(toolArgs.sessionKey, toolArgs.driverNumber);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getRaceControlMessages": {
-            const data = await f1Service.getRaceControlMessages(toolArgs.sessionKey);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getRaceCalendar": {
-            const data = await f1Service.getRaceCalendar(toolArgs.year);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getLapTimes": {
-            const data = await f1Service.getLapTimes(toolArgs.year, toolArgs.round, toolArgs.driverId);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getQualifyingResults": {
-            const data = await f1Service.getQualifyingResults(toolArgs.year, toolArgs.round);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getCircuitInfo": {
-            const data = await f1Service.getCircuitInfo(toolArgs.circuitId);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getSeasonList": {
-            const data = await f1Service.getSeasonList(toolArgs.limit);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getDriverInformation": {
-            const data = await f1Service.getDriverInformation(toolArgs.driverId);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "getConstructorInformation": {
-            const data = await f1Service.getConstructorInformation(toolArgs.constructorId);
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          case "clearCache": {
-            const data = await f1Service.clearCache();
-            result = { content: [{ type: "text", text: JSON.stringify(data) }] };
-            break;
-          }
-          default:
-            throw new Error(`Unknown tool: ${toolName}`);
-        }
-        
-        return res.json({
-          jsonrpc: "2.0",
-          id,
-          result,
-        });
-      } catch (error: any) {
-        logger.error('Tool call error', {
-          requestId: req.requestId,
-          error: error.message,
-          stack: error.stack,
-        });
-        
-        return res.json({
-          jsonrpc: "2.0",
-          id,
-          error: {
-            code: -32000,
-            message: error.message || "Tool execution failed",
-          },
-        });
-      }
+  app.delete(mcpEndpoint, async (req: RequestWithId, res, next) => {
+    try {
+      await sessionManager.handleSessionRequest(req, res);
+    } catch (error) {
+      next(error);
     }
-
-    return res.status(200).json({
-      jsonrpc: "2.0",
-      id,
-      error: { code: -32601, message: "Method not found" },
-    });
   });
 
   // 404 handler
@@ -789,5 +241,5 @@ if (process.env.PORT || config.port) {
   });
 
   // Setup graceful shutdown
-  setupGracefulShutdown(server);
+  setupGracefulShutdown(server, [() => sessionManager.destroy(), closeRedis, closePostgres]);
 }
@@ -0,0 +1,273 @@
+/**
+ * Typed domain model for Ergast/Jolpica responses
+ * Each schema validates a raw API payload and normalises it: numeric strings
+ * ("points": "25", "millis": "5503000") become numbers and lap/pit times gain
+ * a `millis` duration. Parsing is idempotent, so the same schemas are reused
+ * as tool output schemas for already-normalised data.
+ */
+
+import { z } from "zod";
+
+/**
+ * Convert an Ergast time string ("1:29.708", "22.571", "1:33:56.736") to milliseconds
+ * Returns undefined for gap strings such as "+5.123" or "+1 Lap"
+ */
+export function parseDurationMillis(value: string): number | undefined {
+  if (!/^\d+(:\d{1,2})*(\.\d+)?$/.test(value)) {
+    return undefined;
+  }
+
+  const seconds = value
+    .split(':')
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+  return Math.round(seconds * 1000);
+}
+
+const numeric = z.coerce.number();
+
+// Ergast omits optional fields or sends them as empty strings
+const optionalNumeric = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.coerce.number().optional()
+);
+
+const durationObjectSchema = z.object({
+  time: z.string(),
+  millis: optionalNumeric,
+}).passthrough().transform(duration => ({
+  ...duration,
+  millis: duration.millis ?? parseDurationMillis(duration.time),
+}));
+
+/**
+ * `{ time, millis }` pair; accepts a bare time string or Ergast's `Time` object.
+ * Blank times (e.g. "Q2": "" for drivers knocked out in Q1) parse as undefined
+ */
+export const durationSchema = z.preprocess(
+  (value) => {
+    if (typeof value === 'string') {
+      return value === '' ? undefined : { time: value };
+    }
+    return value;
+  },
+  durationObjectSchema.optional()
+);
+
+export const driverSchema = z.object({
+  driverId: z.string(),
+  permanentNumber: optionalNumeric,
+  code: z.string().optional(),
+  url: z.string().optional(),
+  givenName: z.string(),
+  familyName: z.string(),
+  dateOfBirth: z.string().optional(),
+  nationality: z.string().optional(),
+}).passthrough();
+
+export const constructorSchema = z.object({
+  constructorId: z.string(),
+  url: z.string().optional(),
+  name: z.string(),
+  nationality: z.string().optional(),
+}).passthrough();
+
+export const circuitSchema = z.object({
+  circuitId: z.string(),
+  url: z.string().optional(),
+  circuitName: z.string(),
+  Location: z.object({
+    lat: numeric,
+    long: numeric,
+    locality: z.string(),
+    country: z.string(),
+  }).passthrough().optional(),
+}).passthrough();
+
+export const fastestLapSchema = z.object({
+  rank: optionalNumeric,
+  lap: numeric,
+  Time: durationSchema.optional(),
+  AverageSpeed: z.object({
+    units: z.string(),
+    speed: numeric,
+  }).passthrough().optional(),
+}).passthrough();
+
+export const resultSchema = z.object({
+  number: optionalNumeric,
+  position: numeric,
+  positionText: z.string(),
+  points: numeric,
+  Driver: driverSchema,
+  Constructor: constructorSchema.optional(),
+  grid: optionalNumeric,
+  laps: optionalNumeric,
+  status: z.string(),
+  Time: durationSchema.optional(),
+  FastestLap: fastestLapSchema.optional(),
+}).passthrough();
+
+export const qualifyingResultSchema = z.object({
+  number: optionalNumeric,
+  position: numeric,
+  Driver: driverSchema,
+  Constructor: constructorSchema.optional(),
+  Q1: durationSchema.optional(),
+  Q2: durationSchema.optional(),
+  Q3: durationSchema.optional(),
+}).passthrough();
+
+export const lapTimingSchema = z.object({
+  driverId: z.string(),
+  position: numeric,
+  time: z.string(),
+  millis: optionalNumeric,
+}).passthrough().transform(timing => ({
+  ...timing,
+  millis: timing.millis ?? parseDurationMillis(timing.time),
+}));
+
+export const lapSchema = z.object({
+  number: numeric,
+  Timings: z.array(lapTimingSchema),
+}).passthrough();
+
+export const pitStopSchema = z.object({
+  driverId: z.string(),
+  lap: numeric,
+  stop: numeric,
+  time: z.string(),
+  duration: z.string(),
+  millis: optionalNumeric,
+}).passthrough().transform(pitStop => ({
+  ...pitStop,
+  millis: pitStop.millis ?? parseDurationMillis(pitStop.duration),
+}));
+
+// Date/time of a weekend session listed on the race calendar
+export const sessionScheduleSchema = z.object({
+  date: z.string(),
+  time: z.string().optional(),
+}).passthrough();
+
+export const raceSchema = z.object({
+  season: numeric,
+  round: numeric,
+  url: z.string().optional(),
+  raceName: z.string(),
+  Circuit: circuitSchema,
+  date: z.string(),
+  time: z.string().optional(),
+  FirstPractice: sessionScheduleSchema.optional(),
+  SecondPractice: sessionScheduleSchema.optional(),
+  ThirdPractice: sessionScheduleSchema.optional(),
+  Qualifying: sessionScheduleSchema.optional(),
+  // Sprint weekends: the shootout was renamed sprint qualifying from 2024
+  Sprint: sessionScheduleSchema.optional(),
+  SprintShootout: sessionScheduleSchema.optional(),
+  SprintQualifying: sessionScheduleSchema.optional(),
+  Results: z.array(resultSchema).optional(),
+  SprintResults: z.array(resultSchema).optional(),
+  QualifyingResults: z.array(qualifyingResultSchema).optional(),
+  Laps: z.array(lapSchema).optional(),
+  PitStops: z.array(pitStopSchema).optional(),
+}).passthrough();
+
+export const driverStandingSchema = z.object({
+  position: optionalNumeric,
+  positionText: z.string(),
+  points: numeric,
+  wins: numeric,
+  Driver: driverSchema,
+  Constructors: z.array(constructorSchema),
+}).passthrough();
+
+export const constructorStandingSchema = z.object({
+  position: optionalNumeric,
+  positionText: z.string(),
+  points: numeric,
+  wins: numeric,
+  Constructor: constructorSchema,
+}).passthrough();
+
+export const standingsListSchema = z.object({
+  season: numeric,
+  round: numeric,
+  DriverStandings: z.array(driverStandingSchema).optional(),
+  ConstructorStandings: z.array(constructorStandingSchema).optional(),
+}).passthrough();
+
+/**
+ * One driver's points haul across a race weekend (grand prix plus sprint)
+ */
+export const weekendPointsSchema = z.object({
+  driverId: z.string(),
+  name: z.string(),
+  constructor: z.string().optional(),
+  racePosition: z.number().optional(),
+  sprintPosition: z.number().optional(),
+  racePoints: z.number(),
+  sprintPoints: z.number(),
+  totalPoints: z.number(),
+});
+
+export const raceWeekendSchema = z.object({
+  season: z.number(),
+  round: z.number(),
+  raceName: z.string(),
+  sprintWeekend: z.boolean(),
+  points: z.array(weekendPointsSchema),
+});
+
+export const statusSchema = z.object({
+  statusId: numeric,
+  count: numeric,
+  status: z.string(),
+}).passthrough();
+
+export const seasonSchema = z.object({
+  season: numeric,
+  url: z.string().optional(),
+}).passthrough();
+
+/**
+ * How a paginated Ergast query was assembled: `total` rows upstream,
+ * `fetched` rows retrieved across `pages` requests of up to `pageSize`
+ */
+export const pagingSchema = z.object({
+  total: z.number(),
+  fetched: z.number(),
+  pageSize: z.number(),
+  pages: z.number(),
+  truncated: z.boolean(),
+});
+
+export type Duration = z.infer<typeof durationObjectSchema>;
+export type Driver = z.infer<typeof driverSchema>;
+export type Constructor = z.infer<typeof constructorSchema>;
+export type Circuit = z.infer<typeof circuitSchema>;
+export type FastestLap = z.infer<typeof fastestLapSchema>;
+export type Result = z.infer<typeof resultSchema>;
+export type QualifyingResult = z.infer<typeof qualifyingResultSchema>;
+export type LapTiming = z.infer<typeof lapTimingSchema>;
+export type Lap = z.infer<typeof lapSchema>;
+export type PitStop = z.infer<typeof pitStopSchema>;
+export type SessionSchedule = z.infer<typeof sessionScheduleSchema>;
+export type Race = z.infer<typeof raceSchema>;
+export type WeekendPoints = z.infer<typeof weekendPointsSchema>;
+export type RaceWeekend = z.infer<typeof raceWeekendSchema>;
+export type DriverStanding = z.infer<typeof driverStandingSchema>;
+export type ConstructorStanding = z.infer<typeof constructorStandingSchema>;
+export type StandingsList = z.infer<typeof standingsListSchema>;
+export type Status = z.infer<typeof statusSchema>;
+export type Season = z.infer<typeof seasonSchema>;
+export type Paging = z.infer<typeof pagingSchema>;
+
+/**
+ * Result of a paginated Ergast query together with its paging metadata
+ */
+export interface Paged<T> {
+  data: T;
+  paging: Paging;
+}
@@ -22,43 +22,363 @@ export interface RaceControlData {
   data: RaceControlMessage[];
 }
 
+export type TimelinePeriodType = 'green' | 'yellow' | 'double_yellow' | 'vsc' | 'sc' | 'red' | 'chequered';
+
+// A flag or neutralisation period; `end` is null when it was still open at
+// the last message, and `sector` is only set for sector yellows
+export interface TimelinePeriod {
+  type: TimelinePeriodType;
+  start: string;
+  end: string | null;
+  start_lap: number | null;
+  end_lap: number | null;
+  sector: number | null;
+  message: string;
+}
+
+export type IncidentType = 'investigation' | 'penalty' | 'cleared' | 'lap_deleted' | 'warning';
+
+export interface DriverIncident {
+  date: string;
+  lap: number | null;
+  type: IncidentType;
+  message: string;
+}
+
+export interface DriverIncidents {
+  driver_number: string;
+  incidents: DriverIncident[];
+}
+
+export interface SessionTimeline {
+  session_key: number;
+  periods: TimelinePeriod[];
+  drivers: DriverIncidents[];
+}
+
+// `positions` is aligned with the chart's `laps` (lap 0 is the starting
+// grid) and null for laps the driver did not complete or where no data is
+// available
+export interface DriverPositionSeries {
+  driver_id: string | null;
+  driver_number: string | null;
+  positions: (number | null)[];
+}
+
+// `gained` and `lost` use the driver ID when known, else the car number;
+// retirements have no `gained` driver
+export interface PositionChange {
+  lap: number;
+  type: 'overtake' | 'pit_stop' | 'retirement';
+  gained: string | null;
+  lost: string;
+}
+
+export interface PositionChart {
+  season: number;
+  round: number;
+  source: 'ergast' | 'openf1';
+  session_key: number | null;
+  laps: number[];
+  drivers: DriverPositionSeries[];
+  changes: PositionChange[];
+}
+
+export type ChampionshipType = 'drivers' | 'constructors';
+
+// `max_points` assumes the contender scores the most possible in every
+// remaining round; `title_probability` and `projected_points` come from the
+// Monte-Carlo runs
+export interface ChampionshipContender {
+  id: string;
+  name: string;
+  position: number | null;
+  points: number;
+  wins: number;
+  max_points: number;
+  can_win: boolean;
+  title_probability: number;
+  projected_points: number;
+}
+
+// The leader wins the title at the next round by outscoring `rival` there by
+// at least `margin` points; a negative margin is how far the leader can be
+// outscored and still clinch. Ties on points are left to countback
+export interface ClinchMargin {
+  rival: string;
+  margin: number;
+}
+
+export interface NextRoundScenario {
+  round: number;
+  race_name: string;
+  sprint: boolean;
+  points_available: number;
+  leader_can_clinch: boolean;
+  margins: ClinchMargin[];
+}
+
+export interface ChampionshipScenarios {
+  season: number;
+  round: number;
+  championship: ChampionshipType;
+  points_system: string;
+  remaining_rounds: number;
+  remaining_sprints: number;
+  points_available: number;
+  decided: boolean;
+  leader: string;
+  next_round: NextRoundScenario | null;
+  simulations: number;
+  form_rounds: number[];
+  contenders: ChampionshipContender[];
+}
+
+// `points` only counts the results kept under the rules' dropped results;
+// `gross_points` counts every result. `actual_*` come from the real standings
+export interface RecomputedStanding {
+  position: number;
+  id: string;
+  name: string;
+  points: number;
+  gross_points: number;
+  wins: number;
+  actual_position: number | null;
+  actual_points: number | null;
+  position_change: number | null;
+}
+
+// A race the winner was awarded reduced points for; `distance` is the
+// estimated share of race distance completed
+export interface ShortenedRace {
+  round: number;
+  race_name: string;
+  distance: number;
+}
+
+export interface RecomputedStandings {
+  season: number;
+  championship: ChampionshipType;
+  rules_season: number;
+  points_system: string;
+  dropped_results: number[] | null;
+  rounds: number;
+  sprints: number;
+  shortened_races: ShortenedRace[];
+  champion: string;
+  actual_champion: string | null;
+  standings: RecomputedStanding[];
+}
+
+// `age` is laps on the tyre at the end of the stint; `wear` is the fitted
+// fuel-corrected pace loss in seconds per lap (0 when too few clean laps)
 export interface TireData {
   compound: string;
   age: number;
   wear: number;
 }
 
+export interface StintTireData extends TireData {
+  stint_number: number;
+  lap_start: number;
+  lap_end: number;
+}
+
+// Per-lap arrays are aligned with `lap_numbers`; `speed_trap` holds the
+// session maxima at the I1, I2 and finish-line speed traps (km/h); a sector
+// OpenF1 did not time is null
 export interface TelemetryDetail {
+  driver_number: number;
+  lap_numbers: number[];
   lap_times: number[];
-  sector_times: number[][];
+  sector_times: (number | null)[][];
   speed_trap: number[];
   tire_data: TireData;
+  stints: StintTireData[];
 }
 
+// `lap_deltas` and `gap_history` are aligned with `lap_numbers` (laps both
+// drivers completed); positive values mean driver 1 is slower / behind. A
+// sector delta is null when either driver has no timed lap in that sector
 export interface TelemetryData {
   driver1_telemetry: TelemetryDetail;
   driver2_telemetry: TelemetryDetail;
+  lap_numbers: number[];
+  lap_deltas: number[];
+  sector_deltas: (number | null)[];
   gap_history: number[];
   drs_detection: boolean;
 }
 
+// One row per stint. `average_time` is the mean clean lap, and
+// `fuel_corrected_pace` the same with the fuel load removed; `degradation` is
+// the fitted fuel-corrected pace loss in seconds per lap of tyre age (null
+// with fewer than three clean laps)
+export interface TyreStrategyData {
+  driver_number: string;
+  stint_number: number;
+  compound: string;
+  lap_start: number;
+  lap_end: number;
+  tyre_age_at_start: number;
+  laps_on_tyre: number;
+  clean_laps: number;
+  excluded_laps: {
+    in_out: number;
+    neutralised: number;
+    traffic: number;
+    outliers: number;
+  };
+  average_time: number | null;
+  fuel_corrected_pace: number | null;
+  degradation: number | null;
+}
+
+export interface CompoundDegradation {
+  compound: string;
+  stints: number;
+  clean_laps: number;
+  fuel_corrected_pace: number | null;
+  degradation: number | null;
+}
+
+export interface StintAnalysis {
+  session_key: number;
+  total_laps: number;
+  fuel_effect: number;
+  stints: TyreStrategyData[];
+  compounds: CompoundDegradation[];
+}
+
+// Driver-specific lap time model for one compound: fuel-corrected lap time
+// on new tyres plus `degradation` seconds per lap of tyre age
+export interface CompoundModel {
+  compound: string;
+  base_pace: number;
+  degradation: number;
+}
+
+// `modelled_time` is the race time under the lap model; `time_delta` is the
+// difference from the modelled actual strategy, and the projected finish time
+// and position apply that delta to the real result (null when the driver
+// did not finish on the lead lap)
+export interface SimulatedStrategy {
+  compounds: string[];
+  pit_laps: number[];
+  stops: number;
+  modelled_time: number;
+  time_delta: number;
+  projected_finish_time: number | null;
+  projected_position: number | null;
+}
+
+export interface StrategySimulation {
+  session_key: number;
+  driver_number: string;
+  total_laps: number;
+  pit_loss: number;
+  fuel_effect: number;
+  compound_models: CompoundModel[];
+  actual: SimulatedStrategy;
+  alternatives: SimulatedStrategy[];
+}
+
+// Two drivers running close together when the first of them pitted, with
+// the other stopping within a few laps. Gaps are the attacker's time behind
+// the defender at the line (positive = behind): `gap_before` as the first
+// stopper began their in-lap, `gap_after` once the second stopper had
+// completed their out-lap
+export interface PitCycleBattle {
+  cycle: number;
+  attacker: string;
+  defender: string;
+  first_stopper: string;
+  first_stop_lap: number;
+  second_stop_lap: number;
+  gap_before: number;
+  gap_after: number;
+  outcome: 'undercut' | 'overcut' | 'neutral';
+  safety_car: boolean;
+}
+
+export interface PitCycleAnalysis {
+  session_key: number;
+  battles: PitCycleBattle[];
+  undercuts: number;
+  overcuts: number;
+  neutral: number;
+}
+
+// Slowest driver through to the next segment against the fastest driver
+// knocked out, in that segment's own times; `margin` is in seconds
+export interface QualifyingCutoff {
+  segment: string;
+  cutoff_position: number;
+  cutoff_time: number;
+  margin: number;
+  last_through: string;
+  first_out: string;
+}
+
+// `best_lap` comes from the official classification; sector bests, the
+// theoretical best and final-run figures need OpenF1 laps (2023 onwards)
+// and are null without them. `final_run_delta` is the final run's best lap
+// minus the best of the earlier runs (negative = improved)
+export interface QualifyingDriverAnalysis {
+  driver_id: string;
+  driver_number: string;
+  position: number;
+  best_lap: number | null;
+  sector_bests: (number | null)[];
+  theoretical_best: number | null;
+  improved_on_final_run: boolean | null;
+  final_run_delta: number | null;
+}
+
+// `track_evolution` is the fitted change in lap time (seconds per 10 minutes
+// of session, negative = track getting faster); `track_position_impact` is
+// the average time lost on laps started close behind another car.
+// `sector_improvements` holds each sector's session best and its margin over
+// the next fastest driver
 export interface QualifyingData {
+  season: number;
+  round: number;
+  race_name: string;
+  session_key: number | null;
   session_type: string;
-  track_evolution: number;
+  cutoffs: QualifyingCutoff[];
+  pole_margin: number | null;
+  track_evolution: number | null;
   sector_improvements: {
     sector: number;
+    best_time: number;
     time_delta: number;
     driver_number: string;
   }[];
-  track_position_impact: number;
+  track_position_impact: number | null;
+  drivers: QualifyingDriverAnalysis[];
 }
 
+// Raw Ergast /{year}/{round}/sprint payload; parsed into the Race model
+// (interfaces/ergast.interface.ts) by F1DataService.getSprintResults
 export interface SprintResult {
+  number: string;
   position: string;
+  positionText: string;
+  points: string;
   Driver: {
     driverId: string;
     code: string;
+    givenName: string;
+    familyName: string;
+  };
+  Constructor: {
+    constructorId: string;
+    name: string;
   };
+  grid: string;
+  laps: string;
+  status: string;
   Time?: {
     millis: string;
     time: string;
@@ -67,13 +387,18 @@ export interface SprintResult {
 
 export interface SprintData {
   MRData: {
+    limit: string;
+    offset: string;
+    total: string;
     RaceTable: {
+      season: string;
+      round: string;
       Races: {
         season: string;
         round: string;
-        Sprint: {
-          SprintResults: SprintResult[];
-        };
+        raceName: string;
+        date: string;
+        SprintResults: SprintResult[];
       }[];
     };
   };
@@ -1,13 +1,23 @@
 /**
  * Rate limiting middleware
- * Uses in-memory store (can be upgraded to Redis for distributed systems)
+ * Fixed-window counters in Redis when REDIS_ENABLED is set, so replicas share
+ * one quota per client; in-memory otherwise, or while Redis is unreachable
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { getRedisClient, RedisClient } from '../storage/redis-client.js';
 import { RequestWithId } from './request-id.js';
 
+const REDIS_KEY_PREFIX = 'f1mcp:ratelimit:';
+
+interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+}
+
 interface RateLimitEntry {
   count: number;
   resetAt: number;
@@ -45,7 +55,39 @@ class RateLimiter {
     }
   }
 
-  check(key: string): { allowed: boolean; remaining: number; resetAt: number } {
+  async check(key: string): Promise<RateLimitResult> {
+    const redis = getRedisClient();
+    if (redis?.isReady) {
+      try {
+        return await this.checkRedis(redis, key);
+      } catch (error) {
+        logger.warn('Redis rate limit check failed, using local limits', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return this.checkLocal(key);
+  }
+
+  // The first request of a window creates the counter with the window as its
+  // expiry; every request then increments it
+  private async checkRedis(redis: RedisClient, key: string): Promise<RateLimitResult> {
+    const redisKey = REDIS_KEY_PREFIX + key;
+    const [, count, ttl] = await redis
+      .multi()
+      .set(redisKey, '0', { PX: this.windowMs, NX: true })
+      .incr(redisKey)
+      .pTTL(redisKey)
+      .exec();
+    const requests = Number(count);
+    return {
+      allowed: requests <= this.maxRequests,
+      remaining: Math.max(0, this.maxRequests - requests),
+      resetAt: Date.now() + Math.max(0, Number(ttl)),
+    };
+  }
+
+  private checkLocal(key: string): RateLimitResult {
     const now = Date.now();
     const entry = this.store.get(key);
 
@@ -91,17 +133,17 @@ const rateLimiter = new RateLimiter(
 /**
  * Rate limiting middleware
  */
-export function rateLimitMiddleware(
+export async function rateLimitMiddleware(
   req: RequestWithId,
   res: Response,
   next: NextFunction
-): Response | void {
+): Promise<Response | void> {
   if (!config.rateLimitEnabled) {
     return next();
   }
 
   const key = rateLimiter.getKey(req);
-  const result = rateLimiter.check(key);
+  const result = await rateLimiter.check(key);
 
   // Set rate limit headers
   res.setHeader('X-RateLimit-Limit', config.rateLimitMaxRequests.toString());
@@ -0,0 +1,102 @@
+/**
+ * F1 prompt definitions
+ * Parameterised multi-step analysis workflows that name the concrete tools
+ * to call and in which order
+ */
+
+import { z } from "zod";
+import { AnyPromptDefinition, definePrompt } from "./types.js";
+
+// Render an instruction header followed by a numbered list of steps
+function renderSteps(intro: string, steps: string[], outro: string): string {
+  const numbered = steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
+  return `${intro}\n\n${numbered}\n\n${outro}`;
+}
+
+const year = z.string().describe("Season year, e.g. 2024");
+const round = z.string().describe("Round number within the season, e.g. 5");
+
+export const promptDefinitions: AnyPromptDefinition[] = [
+  definePrompt({
+    name: "race-debrief",
+    title: "Race debrief",
+    description: "Full debrief of a Grand Prix: result, qualifying, incidents, strategy and weather",
+    argsSchema: { year, round },
+    render: ({ year, round }) => renderSteps(
+      `Produce a race debrief for round ${round} of the ${year} Formula 1 season. Work through these steps in order:`,
+      [
+        `Call \`getRaceCalendar\` with year=${year} and find round ${round} to get the race name, circuit and country.`,
+        `Call \`getHistoricRaceResults\` with year=${year}, round=${round} for the classification, points, fastest lap and retirements.`,
+        `Call \`getQualifyingResults\` with year=${year}, round=${round} and compare grid positions with finishing positions to find the biggest gainers and losers.`,
+        `Call \`getRaceWeekendSummary\` with year=${year}, round=${round} for each driver's weekend points; on a sprint weekend also call \`getSprintResults\` for the sprint classification.`,
+        `Call \`resolveSession\` with year=${year}, round=${round}, session="Race" to find the race \`session_key\` (only available from 2023 onwards; skip steps 6-8 for earlier seasons).`,
+        "Call `getSessionTimeline` with that sessionKey to identify safety car, VSC and red flag periods, and penalties by driver.",
+        "Call `getPitStopData` with that sessionKey to list each driver's stops and the fastest pit stops.",
+        "Call `getWeatherData` with that sessionKey to note track temperature trends and any rainfall.",
+      ],
+      "Summarise the race in a few paragraphs: the winner and how the race was won, key incidents, strategy calls that changed positions, standout drives and, on sprint weekends, who scored the most points over the weekend."
+    ),
+  }),
+
+  definePrompt({
+    name: "driver-head-to-head",
+    title: "Driver head-to-head",
+    description: "Season-long comparison of two drivers across qualifying, races and points",
+    argsSchema: {
+      year,
+      driverA: z.string().describe("Ergast driver ID of the first driver, e.g. max_verstappen"),
+      driverB: z.string().describe("Ergast driver ID of the second driver, e.g. hamilton"),
+    },
+    render: ({ year, driverA, driverB }) => renderSteps(
+      `Compare ${driverA} and ${driverB} over the ${year} Formula 1 season. Work through these steps in order:`,
+      [
+        `Call \`getDriverInformation\` for driverId=${driverA} and driverId=${driverB} to confirm both drivers.`,
+        `Call \`getDriverStandings\` with year=${year} to get each driver's final position, points and wins.`,
+        `Call \`getRaceCalendar\` with year=${year} to list every round.`,
+        `For each round, call \`getQualifyingResults\` and \`getHistoricRaceResults\` with year=${year} and the round number, and record both drivers' grid and finishing positions.`,
+        `For the rounds where they finished closest together, call \`getLapTimes\` with year=${year}, the round and each driverId to compare race pace.`,
+      ],
+      "Report the qualifying and race head-to-head scores, points gap, average finishing positions, DNFs, and the rounds that best illustrate the difference between them."
+    ),
+  }),
+
+  definePrompt({
+    name: "qualifying-breakdown",
+    title: "Qualifying breakdown",
+    description: "Breakdown of a qualifying session: Q1/Q2/Q3 gaps, eliminations, conditions and deleted laps",
+    argsSchema: { year, round },
+    render: ({ year, round }) => renderSteps(
+      `Break down qualifying for round ${round} of the ${year} Formula 1 season. Work through these steps in order:`,
+      [
+        `Call \`getQualifyingResults\` with year=${year}, round=${round} to get Q1, Q2 and Q3 times for every driver.`,
+        `Call \`analyzeQualifying\` with year=${year}, round=${round} for the cut-off margins, sector bests, theoretical best laps, track evolution and final-run improvements.`,
+        `Call \`resolveSession\` with year=${year}, round=${round}, session="Qualifying" to find the qualifying \`session_key\` (2023 onwards only; skip steps 4-5 for earlier seasons).`,
+        "Call `getRaceControlMessages` with that sessionKey to find deleted lap times, yellow flags and red flags that affected final runs.",
+        "Call `getWeatherData` with that sessionKey to see how track temperature and rainfall changed between Q1 and Q3.",
+      ],
+      "Report the pole margin, the cut-off times and the drivers eliminated in Q1 and Q2, teammate gaps, who left time on the table against their theoretical best, and any laps lost to track limits or flags."
+    ),
+  }),
+
+  definePrompt({
+    name: "strategy-review",
+    title: "Strategy review",
+    description: "Review of pit stop strategy for a session, including safety car timing",
+    argsSchema: {
+      sessionKey: z.string().describe("OpenF1 session key from getHistoricalSessions"),
+    },
+    render: ({ sessionKey }) => renderSteps(
+      `Review the race strategy for OpenF1 session ${sessionKey}. Work through these steps in order:`,
+      [
+        `Call \`getPitStopData\` with sessionKey=${sessionKey} to list every stop per driver, with lap and duration.`,
+        `Call \`getSessionTimeline\` with sessionKey=${sessionKey} to find safety car, virtual safety car and red flag periods and the laps they covered.`,
+        `Call \`analyzeStints\` with sessionKey=${sessionKey} to compare fuel-corrected pace and tyre degradation per stint and compound.`,
+        `Call \`analyzeUndercuts\` with sessionKey=${sessionKey} to see which undercuts and overcuts worked during the pit cycles.`,
+        `Call \`simulateStrategy\` with sessionKey=${sessionKey} for the drivers whose strategy stands out, to see which alternative would have been faster.`,
+        `Call \`getWeatherData\` with sessionKey=${sessionKey} to check whether rainfall or temperature changes forced tyre changes.`,
+        `Call \`getTeamRadio\` with sessionKey=${sessionKey} for the drivers whose strategy stands out, to hear how the calls were made.`,
+      ],
+      "Group drivers by number of stops, highlight who gained or lost from stopping under a safety car, identify the slowest and fastest stops, note which compounds degraded fastest, and give a verdict on the best and worst strategy calls."
+    ),
+  }),
+];
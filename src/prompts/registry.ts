@@ -0,0 +1,43 @@
+/**
+ * Declarative prompt registry
+ * Registers the race-analysis prompt library on an McpServer instance
+ */
+
+import { McpServer, PromptCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { promptDefinitions } from "./definitions.js";
+import { PromptArgsShape, PromptDefinition } from "./types.js";
+
+function registerPrompt<Shape extends PromptArgsShape>(
+  mcpServer: McpServer,
+  prompt: PromptDefinition<Shape>
+): void {
+  const callback = (args: z.objectOutputType<Shape, z.ZodTypeAny>): GetPromptResult => ({
+    description: prompt.description,
+    messages: [{
+      role: "user",
+      content: { type: "text", text: prompt.render(args) },
+    }],
+  });
+  mcpServer.registerPrompt(
+    prompt.name,
+    {
+      title: prompt.title,
+      description: prompt.description,
+      argsSchema: prompt.argsSchema,
+    },
+    // PromptCallback<Shape> is a conditional type that TypeScript cannot
+    // resolve for a generic shape; it takes exactly the arguments of `callback`
+    callback as unknown as PromptCallback<Shape>
+  );
+}
+
+/**
+ * Register every prompt from the registry on an McpServer instance
+ */
+export function registerPrompts(mcpServer: McpServer): void {
+  for (const withDefinition of promptDefinitions) {
+    withDefinition(prompt => registerPrompt(mcpServer, prompt));
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Shared types for the declarative prompt registry
+ */
+
+import { z } from "zod";
+
+/**
+ * Prompt arguments are always strings on the wire, so shapes use z.string()
+ */
+export type PromptArgsShape = {
+  [name: string]: z.ZodType<string, z.ZodTypeDef, string> | z.ZodOptional<z.ZodType<string, z.ZodTypeDef, string>>;
+};
+
+/**
+ * Single source of truth for a prompt exposed over MCP
+ */
+export interface PromptDefinition<Shape extends PromptArgsShape = PromptArgsShape> {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: Shape;
+  render: (args: z.objectOutputType<Shape, z.ZodTypeAny>) => string;
+}
+
+/**
+ * A prompt definition with its argument types hidden behind a callback, so
+ * prompts with different shapes can share one list while each renderer stays
+ * checked against its own arguments
+ */
+export type AnyPromptDefinition = <R>(
+  use: <Shape extends PromptArgsShape>(definition: PromptDefinition<Shape>) => R
+) => R;
+
+/**
+ * Helper that checks a prompt renderer against its inferred argument types,
+ * then wraps the definition for the registry
+ */
+export function definePrompt<Shape extends PromptArgsShape>(
+  definition: PromptDefinition<Shape>
+): AnyPromptDefinition {
+  return use => use(definition);
+}
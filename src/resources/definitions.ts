@@ -0,0 +1,171 @@
+/**
+ * F1 resource definitions
+ * Seasons, events, sessions, drivers and circuits addressable by `f1://` URIs,
+ * backed by the same F1DataService methods the tools use
+ */
+
+import { McpError, ErrorCode, ListResourcesResult } from "@modelcontextprotocol/sdk/types.js";
+import { F1DataService } from "../services/f1-data.service.js";
+import { logger } from "../utils/logger.js";
+import { ResourceDefinition, ResourceVariables } from "./types.js";
+
+const f1Service = F1DataService.getInstance();
+
+function parseIntegerVariable(variables: ResourceVariables, name: string): number {
+  const value = Number(variables[name]);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} in resource URI: ${variables[name]}`);
+  }
+  return value;
+}
+
+function requireVariable(variables: ResourceVariables, name: string): string {
+  const value = variables[name];
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing ${name} in resource URI`);
+  }
+  return value;
+}
+
+// Enumerate result resources for every round of the current season
+async function listCurrentSeasonResults(): Promise<ListResourcesResult> {
+  const year = new Date().getFullYear();
+  try {
+    const { data: races } = await f1Service.getRaceCalendar(year);
+    return {
+      resources: races.map(race => ({
+        uri: `f1://season/${year}/round/${race.round}/results`,
+        name: `${year} ${race.raceName} results`,
+        mimeType: "application/json",
+      })),
+    };
+  } catch (error: any) {
+    logger.warn('Failed to list current season result resources', { year, error: error.message });
+    return { resources: [] };
+  }
+}
+
+export const resourceDefinitions: ResourceDefinition[] = [
+  // Seasons and events (Ergast API)
+  {
+    name: "seasons",
+    uriTemplate: "f1://seasons",
+    title: "F1 seasons",
+    description: "Every Formula 1 championship season",
+    read: async () => f1Service.getSeasonList(),
+  },
+  {
+    name: "season-calendar",
+    uriTemplate: "f1://season/{year}/calendar",
+    title: "Season calendar",
+    description: "Race calendar (rounds, circuits, dates) for a season",
+    read: async (variables) => f1Service.getRaceCalendar(parseIntegerVariable(variables, "year")),
+  },
+  {
+    name: "season-driver-standings",
+    uriTemplate: "f1://season/{year}/driver-standings",
+    title: "Driver standings",
+    description: "Final (or current) drivers' championship standings for a season",
+    read: async (variables) => f1Service.getDriverStandings(parseIntegerVariable(variables, "year")),
+  },
+  {
+    name: "season-constructor-standings",
+    uriTemplate: "f1://season/{year}/constructor-standings",
+    title: "Constructor standings",
+    description: "Final (or current) constructors' championship standings for a season",
+    read: async (variables) => f1Service.getConstructorStandings(parseIntegerVariable(variables, "year")),
+  },
+  {
+    name: "round-results",
+    uriTemplate: "f1://season/{year}/round/{round}/results",
+    title: "Race results",
+    description: "Classified race results for a round",
+    read: async (variables) => f1Service.getHistoricRaceResults(
+      parseIntegerVariable(variables, "year"),
+      parseIntegerVariable(variables, "round")
+    ),
+    list: listCurrentSeasonResults,
+  },
+  {
+    name: "round-qualifying",
+    uriTemplate: "f1://season/{year}/round/{round}/qualifying",
+    title: "Qualifying results",
+    description: "Qualifying classification (Q1/Q2/Q3 times) for a round",
+    read: async (variables) => f1Service.getQualifyingResults(
+      parseIntegerVariable(variables, "year"),
+      parseIntegerVariable(variables, "round")
+    ),
+  },
+  {
+    name: "round-sprint",
+    uriTemplate: "f1://season/{year}/round/{round}/sprint",
+    title: "Sprint results",
+    description: "Sprint race classification for a sprint weekend round",
+    read: async (variables) => f1Service.getSprintResults(
+      parseIntegerVariable(variables, "year"),
+      parseIntegerVariable(variables, "round")
+    ),
+  },
+
+  // Sessions (OpenF1 API)
+  {
+    name: "season-sessions",
+    uriTemplate: "f1://season/{year}/sessions",
+    title: "Season sessions",
+    description: "All OpenF1 sessions (with session keys) for a season, 2023 onwards",
+    read: async (variables) => f1Service.getHistoricalSessions({
+      year: parseIntegerVariable(variables, "year"),
+    }),
+  },
+  {
+    name: "session-race-control",
+    uriTemplate: "f1://session/{session_key}/race-control",
+    title: "Race control messages",
+    description: "Flags, safety car periods, penalties and other race control messages for a session",
+    read: async (variables) => f1Service.getRaceControlMessages(requireVariable(variables, "session_key")),
+  },
+  {
+    name: "session-weather",
+    uriTemplate: "f1://session/{session_key}/weather",
+    title: "Session weather",
+    description: "Weather samples (air/track temperature, rainfall, wind) for a session",
+    read: async (variables) => f1Service.getWeatherData(requireVariable(variables, "session_key")),
+  },
+  {
+    name: "session-pit-stops",
+    uriTemplate: "f1://session/{session_key}/pit-stops",
+    title: "Session pit stops",
+    description: "Pit lane visits and durations for a session",
+    read: async (variables) => f1Service.getPitStopData(requireVariable(variables, "session_key")),
+  },
+  {
+    name: "session-team-radio",
+    uriTemplate: "f1://session/{session_key}/team-radio",
+    title: "Session team radio",
+    description: "Team radio recordings for a session",
+    read: async (variables) => f1Service.getTeamRadio(requireVariable(variables, "session_key")),
+  },
+
+  // Drivers, constructors and circuits (Ergast API)
+  {
+    name: "driver-profile",
+    uriTemplate: "f1://driver/{driverId}",
+    title: "Driver",
+    description: "Driver biography by Ergast driver ID (e.g. 'max_verstappen', 'hamilton')",
+    read: async (variables) => f1Service.getDriverInformation(requireVariable(variables, "driverId")),
+  },
+  {
+    name: "constructor-profile",
+    uriTemplate: "f1://constructor/{constructorId}",
+    title: "Constructor",
+    description: "Constructor details by Ergast constructor ID (e.g. 'red_bull', 'ferrari')",
+    read: async (variables) => f1Service.getConstructorInformation(requireVariable(variables, "constructorId")),
+  },
+  {
+    name: "circuit-profile",
+    uriTemplate: "f1://circuit/{circuitId}",
+    title: "Circuit",
+    description: "Circuit location and details by Ergast circuit ID (e.g. 'monza', 'spa')",
+    read: async (variables) => f1Service.getCircuitInfo(requireVariable(variables, "circuitId")),
+  },
+];
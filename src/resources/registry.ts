@@ -0,0 +1,68 @@
+/**
+ * Declarative resource registry
+ * Registers every `f1://` resource and resource template on an McpServer
+ * instance so hosts can attach F1 context without a tool round-trip
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { resourceDefinitions } from "./definitions.js";
+import { ResourceDefinition, ResourceVariables } from "./types.js";
+
+const JSON_MIME_TYPE = "application/json";
+
+// Template variables may be exploded into arrays; resources only use scalars
+function normaliseVariables(variables: Record<string, string | string[]>): ResourceVariables {
+  const normalised: ResourceVariables = {};
+  for (const [key, value] of Object.entries(variables)) {
+    normalised[key] = Array.isArray(value) ? value[0] : value;
+  }
+  return normalised;
+}
+
+async function readResource(
+  resource: ResourceDefinition,
+  uri: URL,
+  variables: ResourceVariables
+): Promise<ReadResourceResult> {
+  const data = await resource.read(variables);
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: JSON_MIME_TYPE,
+      text: JSON.stringify(data ?? null, null, 2),
+    }],
+  };
+}
+
+/**
+ * Register every resource from the registry on an McpServer instance
+ */
+export function registerResources(mcpServer: McpServer): void {
+  for (const resource of resourceDefinitions) {
+    const metadata = {
+      title: resource.title,
+      description: resource.description,
+      mimeType: JSON_MIME_TYPE,
+    };
+
+    if (!resource.uriTemplate.includes("{")) {
+      mcpServer.registerResource(
+        resource.name,
+        resource.uriTemplate,
+        metadata,
+        (uri) => readResource(resource, uri, {})
+      );
+      continue;
+    }
+
+    mcpServer.registerResource(
+      resource.name,
+      new ResourceTemplate(resource.uriTemplate, {
+        list: resource.list ? () => resource.list!() : undefined,
+      }),
+      metadata,
+      (uri, variables) => readResource(resource, uri, normaliseVariables(variables))
+    );
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Shared types for the declarative resource registry
+ */
+
+import { ListResourcesResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Variables extracted from a resource URI template (e.g. `{year}`, `{round}`)
+ */
+export type ResourceVariables = Record<string, string>;
+
+/**
+ * Single source of truth for a resource exposed over MCP
+ * `uriTemplate` containing `{placeholders}` is registered as a resource template,
+ * otherwise as a fixed resource
+ */
+export interface ResourceDefinition {
+  name: string;
+  uriTemplate: string;
+  title: string;
+  description: string;
+  read: (variables: ResourceVariables) => Promise<unknown>;
+  list?: () => Promise<ListResourcesResult>;
+}
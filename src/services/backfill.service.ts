@@ -0,0 +1,262 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { F1DataService } from './f1-data.service.js';
+import { findMeetingForRace } from './entity-resolver.service.js';
+import { FIRST_OPENF1_SEASON, warehouse } from './warehouse.service.js';
+import { IngestCheckpoint } from '../storage/ingest-checkpoint.js';
+import { IngestionFailure, IngestionSource } from '../storage/warehouse-types.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// Attempts per task when upstream rate-limits or fails transiently
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5000;
+
+// fetchWithErrorHandling reports the HTTP status at the end of the message;
+// 0 means the request never got a response
+const RETRYABLE_STATUS = /: (0|429|5\d\d)$/;
+const RATE_LIMITED = /: 429$/;
+
+interface BackfillTask {
+  // Stable ID recorded in the checkpoint, e.g. "ergast 2024/5 laps"
+  id: string;
+  source: IngestionSource | 'warehouse';
+  run: () => Promise<unknown>;
+}
+
+export type BackfillEvent =
+  | { type: 'planned'; total: number; completed: number }
+  | { type: 'done' | 'skipped'; task: string; index: number; total: number }
+  | { type: 'retry'; task: string; index: number; total: number; error: string; delayMs: number }
+  | { type: 'failed'; task: string; index: number; total: number; error: string };
+
+export interface BackfillOptions {
+  sources?: IngestionSource[];
+  round?: number;
+  checkpoint: IngestCheckpoint;
+  // Minimum gap between requests to the same upstream API
+  intervalMs: number;
+  onProgress?: (event: BackfillEvent) => void;
+}
+
+export interface BackfillResult {
+  season: number;
+  sources: IngestionSource[];
+  warehouse: boolean;
+  total: number;
+  fetched: number;
+  skipped: number;
+  failures: IngestionFailure[];
+  // Set when the run stopped early because upstream kept rate-limiting
+  aborted: string | null;
+  duration_ms: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Backfill Service
+ *
+ * Walks a season's Ergast calendar and OpenF1 sessions and fetches every
+ * result, qualifying, lap, pit stop, weather, race control and stint payload
+ * through F1DataService, so they land in the response cache (and, with
+ * POSTGRES_ENABLED, the warehouse). Tasks run one at a time with a minimum
+ * interval per API, retry with backoff on 429 and 5xx responses, and are
+ * recorded in a checkpoint so a rerun resumes after the last completed task.
+ */
+export class BackfillService {
+  private static instance: BackfillService;
+  private lastRequest = new Map<string, number>();
+
+  private constructor() {}
+
+  public static getInstance(): BackfillService {
+    if (!BackfillService.instance) {
+      BackfillService.instance = new BackfillService();
+    }
+    return BackfillService.instance;
+  }
+
+  private get f1Service(): F1DataService {
+    return F1DataService.getInstance();
+  }
+
+  async backfillSeason(year: number, options: BackfillOptions): Promise<BackfillResult> {
+    const started = Date.now();
+    const sources = options.sources ?? (year >= FIRST_OPENF1_SEASON ? ['ergast', 'openf1'] : ['ergast']);
+    if (sources.includes('openf1') && year < FIRST_OPENF1_SEASON) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `OpenF1 sessions are only available from ${FIRST_OPENF1_SEASON} onwards (requested ${year}); use --sources ergast`
+      );
+    }
+
+    const tasks = await this.plan(year, sources, options);
+    const { checkpoint, onProgress } = options;
+    const result: BackfillResult = {
+      season: year,
+      sources,
+      warehouse: config.postgresEnabled,
+      total: tasks.length,
+      fetched: 0,
+      skipped: 0,
+      failures: [],
+      aborted: null,
+      duration_ms: 0,
+    };
+    onProgress?.({
+      type: 'planned',
+      total: tasks.length,
+      completed: tasks.filter(task => checkpoint.has(task.id)).length,
+    });
+
+    for (const [position, task] of tasks.entries()) {
+      const progress = { task: task.id, index: position + 1, total: tasks.length };
+      if (checkpoint.has(task.id)) {
+        result.skipped++;
+        onProgress?.({ type: 'skipped', ...progress });
+        continue;
+      }
+
+      try {
+        await this.runWithRetry(task, options, (error, delayMs) =>
+          onProgress?.({ type: 'retry', ...progress, error, delayMs })
+        );
+        await checkpoint.complete(task.id);
+        result.fetched++;
+        onProgress?.({ type: 'done', ...progress });
+      } catch (error: any) {
+        await checkpoint.fail(task.id, error.message);
+        result.failures.push({ scope: task.id, error: error.message });
+        onProgress?.({ type: 'failed', ...progress, error: error.message });
+        // Later requests to a rate-limited API would only fail the same way
+        if (RATE_LIMITED.test(error.message)) {
+          result.aborted = `${task.source} is rate limiting requests`;
+          break;
+        }
+      }
+    }
+
+    result.duration_ms = Date.now() - started;
+    logger.info('Backfill finished', {
+      year,
+      fetched: result.fetched,
+      skipped: result.skipped,
+      failures: result.failures.length,
+      aborted: result.aborted,
+    });
+    return result;
+  }
+
+  /**
+   * One task per payload, grouped by round; rounds that have not been run and
+   * sessions that have not ended are left out
+   */
+  private async plan(year: number, sources: IngestionSource[], options: BackfillOptions): Promise<BackfillTask[]> {
+    const { data: calendar } = await this.f1Service.getRaceCalendar(year);
+    const races = calendar.filter(race =>
+      (options.round === undefined || race.round === options.round) && Date.parse(race.date) < Date.now()
+    );
+    if (races.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        options.round !== undefined
+          ? `Round ${options.round} of ${year} is not on the calendar or has not been run yet`
+          : `No ${year} races have been run yet`
+      );
+    }
+
+    const meetings = sources.includes('openf1') ? await this.f1Service.getMeetings({ year }) : [];
+    const sessions = sources.includes('openf1') ? await this.f1Service.getHistoricalSessions({ year }) : [];
+    // getHistoricalSessions returns [] on errors, which would silently skip every session
+    if (meetings.length > 0 && sessions.length === 0) {
+      throw new McpError(ErrorCode.InternalError, `Could not list the ${year} OpenF1 sessions; try again later`);
+    }
+
+    const tasks: BackfillTask[] = [];
+    for (const race of races) {
+      const round = race.round;
+      const ergast = (payload: string, run: () => Promise<unknown>) =>
+        tasks.push({ id: `ergast ${year}/${round} ${payload}`, source: 'ergast', run });
+
+      if (sources.includes('ergast')) {
+        ergast('results', () => this.f1Service.getHistoricRaceResults(year, round));
+        ergast('qualifying', () => this.f1Service.getQualifyingResults(year, round));
+        if (race.Sprint) {
+          ergast('sprint', () => this.f1Service.getSprintResults(year, round));
+        }
+        ergast('laps', () => this.f1Service.getLapTimes(year, round));
+        ergast('pit stops', () => this.f1Service.getHistoricPitStops(year, round));
+      }
+
+      const meeting = findMeetingForRace(meetings, race.date);
+      const ended = sessions.filter(session =>
+        session.meeting_key === meeting?.meeting_key && Date.parse(session.date_end) < Date.now()
+      );
+      for (const session of ended) {
+        const sessionKey = String(session.session_key);
+        const openf1 = (payload: string, run: () => Promise<unknown>) => tasks.push({
+          id: `openf1 ${year}/${round} ${session.session_name} (${sessionKey}) ${payload}`,
+          source: 'openf1',
+          run,
+        });
+        openf1('drivers', () => this.f1Service.getSessionDrivers(sessionKey));
+        openf1('results', () => this.f1Service.getSessionResults(sessionKey));
+        openf1('laps', () => this.f1Service.getLaps(sessionKey));
+        openf1('stints', () => this.f1Service.getStints(sessionKey));
+        openf1('pit stops', () => this.f1Service.getPitStopData(sessionKey));
+        openf1('weather', () => this.f1Service.getWeatherData(sessionKey));
+        openf1('race control', () => this.f1Service.getRaceControlMessages(sessionKey));
+      }
+
+      // Every payload the warehouse reads is cached by now, so this costs no extra upstream calls
+      if (config.postgresEnabled) {
+        tasks.push({
+          id: `warehouse ${year}/${round}`,
+          source: 'warehouse',
+          run: async () => {
+            const report = await warehouse.ingestSeason(year, { round, sources });
+            if (report.failures.length > 0) {
+              throw new Error(report.failures.map(failure => `${failure.scope}: ${failure.error}`).join('; '));
+            }
+          },
+        });
+      }
+    }
+    return tasks;
+  }
+
+  private async runWithRetry(
+    task: BackfillTask,
+    options: BackfillOptions,
+    onRetry: (error: string, delayMs: number) => void
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      await this.throttle(task.source, options.intervalMs);
+      try {
+        await task.run();
+        return;
+      } catch (error: any) {
+        if (attempt >= MAX_ATTEMPTS || !RETRYABLE_STATUS.test(error.message ?? '')) {
+          throw error;
+        }
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        onRetry(error.message, delayMs);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  // Space out requests to the same API; the warehouse only reads the cache
+  private async throttle(source: BackfillTask['source'], intervalMs: number): Promise<void> {
+    if (source === 'warehouse') {
+      return;
+    }
+    const wait = (this.lastRequest.get(source) ?? 0) + intervalMs - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    this.lastRequest.set(source, Date.now());
+  }
+}
+
+export const backfill = BackfillService.getInstance();
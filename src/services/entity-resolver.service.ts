@@ -0,0 +1,479 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { F1DataService, MeetingData, SessionDriverData } from './f1-data.service.js';
+import { logger } from '../utils/logger.js';
+
+export type EntityType = 'driver' | 'constructor' | 'circuit';
+
+/**
+ * A driver as known to both APIs for one season
+ * `driverNumber` is the number raced that season (Verstappen ran #1, not his
+ * permanent #33, in 2022-2024) and is what OpenF1 filters on
+ */
+export interface ResolvedDriver {
+  type: 'driver';
+  season: number;
+  driverId: string;
+  name: string;
+  code?: string;
+  permanentNumber?: number;
+  driverNumber?: number;
+  constructorId?: string;
+  teamName?: string;
+}
+
+export interface ResolvedConstructor {
+  type: 'constructor';
+  season: number;
+  constructorId: string;
+  name: string;
+  teamName?: string;
+  driverNumbers: number[];
+}
+
+export interface ResolvedCircuit {
+  type: 'circuit';
+  season: number;
+  circuitId: string;
+  name: string;
+  locality?: string;
+  country?: string;
+  round?: number;
+  raceName?: string;
+  circuitShortName?: string;
+  meetingKey?: number;
+}
+
+export type ResolvedEntity = ResolvedDriver | ResolvedConstructor | ResolvedCircuit;
+
+export interface EntityMatch {
+  entity: ResolvedEntity;
+  score: number;
+  matchedOn: string;
+}
+
+// Lower scores (substring matches) are too loose to silently replace the input
+const MIN_RESOLVE_SCORE = 0.8;
+
+// Shape of Ergast driver, constructor and circuit IDs ("max_verstappen", "red_bull")
+const ERGAST_ID = /^[a-z][a-z0-9_]*$/;
+
+interface IndexedEntity {
+  entity: ResolvedEntity;
+  aliases: string[];
+}
+
+interface SeasonIndex {
+  year: number;
+  entities: IndexedEntity[];
+  expiresAt: number;
+}
+
+// Case, accent and separator insensitive form used for every comparison ("GP" = "Grand Prix")
+function normalize(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_\-.]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/\bgp\b/g, 'grand prix')
+    .trim();
+}
+
+/**
+ * Score how well a query matches an alias: exact 1, whole word 0.9,
+ * prefix 0.8, substring 0.6. Numbers only ever match exactly.
+ */
+function scoreAlias(query: string, alias: string): number {
+  if (alias === query) return 1;
+  if (/^\d+$/.test(query)) return 0;
+  if (alias.split(' ').includes(query)) return 0.9;
+  if (alias.startsWith(query)) return 0.8;
+  if (query.length >= 3 && alias.includes(query)) return 0.6;
+  return 0;
+}
+
+function entityId(entity: ResolvedEntity): string {
+  switch (entity.type) {
+    case 'driver':
+      return entity.driverId;
+    case 'constructor':
+      return entity.constructorId;
+    case 'circuit':
+      return entity.circuitId;
+  }
+}
+
+function aliasesOf(...values: (string | number | null | undefined)[]): string[] {
+  const aliases = values
+    .filter((value): value is string | number => value !== undefined && value !== null && value !== '')
+    .map(value => normalize(String(value)));
+  return [...new Set(aliases)];
+}
+
+// Rank candidates by their best-scoring alias, dropping non-matches
+function rankMatches<T>(
+  query: string,
+  candidates: { item: T; aliases: string[] }[]
+): { item: T; score: number; matchedOn: string }[] {
+  const normalized = normalize(query);
+  if (!normalized) {
+    return [];
+  }
+
+  const matches: { item: T; score: number; matchedOn: string }[] = [];
+  for (const { item, aliases } of candidates) {
+    let score = 0;
+    let matchedOn = '';
+    for (const alias of aliases) {
+      const aliasScore = scoreAlias(normalized, alias);
+      if (aliasScore > score) {
+        score = aliasScore;
+        matchedOn = alias;
+      }
+    }
+    if (score > 0) {
+      matches.push({ item, score, matchedOn });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * OpenF1 meeting for an Ergast race date
+ * A meeting starts on the Thursday/Friday before the Sunday race
+ */
+export function findMeetingForRace(meetings: MeetingData[], raceDate: string): MeetingData | undefined {
+  const race = Date.parse(raceDate);
+  return meetings.find(meeting => {
+    const daysBefore = (race - Date.parse(meeting.date_start.slice(0, 10))) / 86400000;
+    return daysBefore >= 0 && daysBefore <= 4;
+  });
+}
+
+/**
+ * Entity Resolver Service
+ *
+ * Maps free text ("Max", "VER", "33", "Red Bull", "Monza") to canonical
+ * drivers, constructors and circuits for a season, linking Ergast IDs to
+ * OpenF1 driver numbers, team names and circuit_short_name. Season indexes
+ * are built from the cached F1DataService calls and kept for an hour.
+ */
+export class EntityResolver {
+  private static instance: EntityResolver;
+  private indexes: Map<number, Promise<SeasonIndex>> = new Map();
+  private readonly INDEX_TTL_MS = 60 * 60 * 1000;
+
+  private constructor() {}
+
+  public static getInstance(): EntityResolver {
+    if (!EntityResolver.instance) {
+      EntityResolver.instance = new EntityResolver();
+    }
+    return EntityResolver.instance;
+  }
+
+  // Resolved lazily: F1DataService also depends on this module
+  private get f1Service(): F1DataService {
+    return F1DataService.getInstance();
+  }
+
+  /**
+   * Rank every entity of the season matching the query, best first
+   */
+  async resolve(
+    query: string,
+    options: { type?: EntityType; year?: number } = {}
+  ): Promise<EntityMatch[]> {
+    const index = await this.getIndex(options.year);
+    const candidates = options.type
+      ? index.entities.filter(({ entity }) => entity.type === options.type)
+      : index.entities;
+    return rankMatches(query, candidates.map(({ entity, aliases }) => ({ item: entity, aliases })))
+      .map(({ item, score, matchedOn }) => ({ entity: item, score, matchedOn }));
+  }
+
+  /**
+   * Ergast driverId for free text; Ergast IDs and unknown input are returned
+   * unchanged so historical IDs outside the indexed season still reach Ergast
+   */
+  async resolveDriverId(query: string, year?: number): Promise<string> {
+    const entity = await this.resolveBest(query, 'driver', year);
+    return entity?.type === 'driver' ? entity.driverId : query;
+  }
+
+  async resolveConstructorId(query: string, year?: number): Promise<string> {
+    const entity = await this.resolveBest(query, 'constructor', year);
+    return entity?.type === 'constructor' ? entity.constructorId : query;
+  }
+
+  async resolveCircuitId(query: string, year?: number): Promise<string> {
+    const entity = await this.resolveBest(query, 'circuit', year);
+    return entity?.type === 'circuit' ? entity.circuitId : query;
+  }
+
+  /**
+   * OpenF1 driver number for free text, matched against the session's own
+   * entry list; numeric input is passed through untouched
+   */
+  async resolveSessionDriverNumber(query: string, sessionKey: string): Promise<string> {
+    if (/^\d+$/.test(query.trim())) {
+      return query.trim();
+    }
+
+    const drivers = await this.f1Service.getSessionDrivers(sessionKey);
+    const [match] = rankMatches(query, drivers.map(driver => ({
+      item: driver,
+      aliases: aliasesOf(
+        driver.name_acronym,
+        driver.first_name,
+        driver.last_name,
+        driver.full_name,
+        driver.broadcast_name
+      ),
+    })));
+
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown driver "${query}" in session ${sessionKey}. Use a driver number or a name from getSessionDrivers.`
+      );
+    }
+    return String(match.item.driver_number);
+  }
+
+  /**
+   * Ergast driverId for a race number, or undefined when it cannot be mapped
+   */
+  async driverIdForNumber(driverNumber: number, year?: number): Promise<string | undefined> {
+    const index = await this.getIndex(year).catch(() => undefined);
+    const match = index?.entities.find(({ entity }) =>
+      entity.type === 'driver' && entity.driverNumber === driverNumber
+    );
+    return match?.entity.type === 'driver' ? match.entity.driverId : undefined;
+  }
+
+  clear(): void {
+    this.indexes.clear();
+  }
+
+  /**
+   * Best match to replace the input with, or undefined to keep the input:
+   * when it is already an Ergast ID (of this or any other season) or nothing
+   * matches at least as a prefix
+   */
+  private async resolveBest(
+    query: string,
+    type: EntityType,
+    year?: number
+  ): Promise<ResolvedEntity | undefined> {
+    try {
+      const matches = await this.resolve(query, { type, year });
+      const exact = matches.find(({ entity }) => entityId(entity) === query);
+      if (exact) {
+        return exact.entity;
+      }
+
+      const [best] = matches;
+      if (!best || best.score < MIN_RESOLVE_SCORE) {
+        return undefined;
+      }
+      // "verstappen" is Jos, not a nickname for max_verstappen
+      if (ERGAST_ID.test(query) && await this.isErgastId(query, type)) {
+        return undefined;
+      }
+      return best.entity;
+    } catch (error: any) {
+      logger.warn('Entity resolution failed, using input as-is', { query, type, year, error: error.message });
+      return undefined;
+    }
+  }
+
+  private async isErgastId(id: string, type: EntityType): Promise<boolean> {
+    switch (type) {
+      case 'driver':
+        return (await this.f1Service.getDriverInfo(id)) !== null;
+      case 'constructor':
+        return (await this.f1Service.getConstructorInformation(id)) !== undefined;
+      case 'circuit':
+        return (await this.f1Service.getCircuitInfo(id)) !== undefined;
+    }
+  }
+
+  /**
+   * Index for the given season; without a year, the current season or the
+   * previous one if the current season has no entries yet
+   */
+  private async getIndex(year?: number): Promise<SeasonIndex> {
+    if (year !== undefined) {
+      return this.getSeasonIndex(year);
+    }
+
+    const currentYear = new Date().getFullYear();
+    const index = await this.getSeasonIndex(currentYear);
+    return index.entities.length > 0 ? index : this.getSeasonIndex(currentYear - 1);
+  }
+
+  private async getSeasonIndex(year: number): Promise<SeasonIndex> {
+    const cached = this.indexes.get(year);
+    if (cached) {
+      const index = await cached;
+      if (Date.now() < index.expiresAt) {
+        return index;
+      }
+    }
+
+    const pending = this.buildSeasonIndex(year);
+    this.indexes.set(year, pending);
+    pending.catch(() => this.indexes.delete(year));
+    return pending;
+  }
+
+  private async buildSeasonIndex(year: number): Promise<SeasonIndex> {
+    const [drivers, constructors, calendar, standings, openf1] = await Promise.all([
+      this.f1Service.getSeasonDrivers(year),
+      this.f1Service.getSeasonConstructors(year),
+      this.f1Service.getRaceCalendar(year),
+      this.f1Service.getDriverStandings(year),
+      this.getOpenF1Season(year),
+    ]);
+
+    // Race numbers as used in the latest classified round
+    const latestRound = standings.data?.round;
+    const latestResults = latestRound
+      ? (await this.f1Service.getHistoricRaceResults(year, latestRound)).data?.Results ?? []
+      : [];
+    const raceNumbers = new Map(latestResults.map(result => [result.Driver.driverId, result.number]));
+    const driverConstructors = new Map((standings.data?.DriverStandings ?? []).map(standing => [
+      standing.Driver.driverId,
+      standing.Constructors[standing.Constructors.length - 1]?.constructorId,
+    ]));
+
+    const entities: IndexedEntity[] = [];
+    const teamNames = new Map<string, string>();
+    const constructorNumbers = new Map<string, number[]>();
+
+    for (const driver of drivers.data) {
+      const openf1Driver = openf1.drivers.find(entry =>
+        (driver.code && entry.name_acronym === driver.code) ||
+        (entry.last_name && normalize(entry.last_name) === normalize(driver.familyName))
+      );
+      const driverNumber = openf1Driver?.driver_number ?? raceNumbers.get(driver.driverId) ?? driver.permanentNumber;
+      const constructorId = driverConstructors.get(driver.driverId);
+
+      if (constructorId && openf1Driver?.team_name) {
+        teamNames.set(constructorId, openf1Driver.team_name);
+      }
+      if (constructorId && driverNumber !== undefined) {
+        constructorNumbers.set(constructorId, [...(constructorNumbers.get(constructorId) ?? []), driverNumber]);
+      }
+
+      const entity: ResolvedDriver = {
+        type: 'driver',
+        season: year,
+        driverId: driver.driverId,
+        name: `${driver.givenName} ${driver.familyName}`,
+        code: driver.code,
+        permanentNumber: driver.permanentNumber,
+        driverNumber,
+        constructorId,
+        teamName: openf1Driver?.team_name ?? undefined,
+      };
+      entities.push({
+        entity,
+        aliases: aliasesOf(
+          driver.driverId,
+          driver.code,
+          driver.givenName,
+          driver.familyName,
+          entity.name,
+          driverNumber,
+          driver.permanentNumber,
+          openf1Driver?.full_name,
+          openf1Driver?.broadcast_name
+        ),
+      });
+    }
+
+    for (const constructor of constructors.data) {
+      const teamName = teamNames.get(constructor.constructorId);
+      entities.push({
+        entity: {
+          type: 'constructor',
+          season: year,
+          constructorId: constructor.constructorId,
+          name: constructor.name,
+          teamName,
+          driverNumbers: constructorNumbers.get(constructor.constructorId) ?? [],
+        },
+        aliases: aliasesOf(constructor.constructorId, constructor.name, teamName),
+      });
+    }
+
+    for (const race of calendar.data) {
+      const meeting = findMeetingForRace(openf1.meetings, race.date);
+      entities.push({
+        entity: {
+          type: 'circuit',
+          season: year,
+          circuitId: race.Circuit.circuitId,
+          name: race.Circuit.circuitName,
+          locality: race.Circuit.Location?.locality,
+          country: race.Circuit.Location?.country,
+          round: race.round,
+          raceName: race.raceName,
+          circuitShortName: meeting?.circuit_short_name,
+          meetingKey: meeting?.meeting_key,
+        },
+        aliases: aliasesOf(
+          race.Circuit.circuitId,
+          race.Circuit.circuitName,
+          race.Circuit.Location?.locality,
+          race.Circuit.Location?.country,
+          race.raceName,
+          meeting?.circuit_short_name,
+          meeting?.meeting_name,
+          meeting?.country_name,
+          meeting?.location
+        ),
+      });
+    }
+
+    logger.debug('Built entity index', { year, entities: entities.length });
+    return { year, entities, expiresAt: Date.now() + this.INDEX_TTL_MS };
+  }
+
+  /**
+   * OpenF1 meetings plus the entry list of the season's latest race
+   * (OpenF1 covers 2023 onwards; earlier seasons resolve from Ergast alone)
+   */
+  private async getOpenF1Season(
+    year: number
+  ): Promise<{ meetings: MeetingData[]; drivers: SessionDriverData[] }> {
+    if (year < 2023) {
+      return { meetings: [], drivers: [] };
+    }
+
+    try {
+      const [meetings, races] = await Promise.all([
+        this.f1Service.getMeetings({ year }),
+        this.f1Service.getHistoricalSessions({ year, session_name: 'Race' }),
+      ]);
+      const now = new Date().toISOString();
+      const latestRace = races
+        .filter(session => session.date_start <= now)
+        .sort((a, b) => a.date_start.localeCompare(b.date_start))
+        .pop();
+      const drivers = latestRace
+        ? await this.f1Service.getSessionDrivers(String(latestRace.session_key))
+        : [];
+      return { meetings, drivers };
+    } catch (error: any) {
+      logger.warn('OpenF1 data unavailable for entity index', { year, error: error.message });
+      return { meetings: [], drivers: [] };
+    }
+  }
+}
+
+export const entityResolver = EntityResolver.getInstance();
@@ -0,0 +1,1563 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { F1DataService, IntervalData, LapData, PitData, StintData } from './f1-data.service.js';
+import { sessionResolver } from './session-resolver.service.js';
+import { entityResolver } from './entity-resolver.service.js';
+import {
+  ChampionshipContender,
+  ChampionshipScenarios,
+  ChampionshipType,
+  CompoundDegradation,
+  CompoundModel,
+  PitCycleAnalysis,
+  PitCycleBattle,
+  PositionChange,
+  PositionChart,
+  QualifyingCutoff,
+  QualifyingData,
+  QualifyingDriverAnalysis,
+  RecomputedStanding,
+  RecomputedStandings,
+  SessionTimeline,
+  SimulatedStrategy,
+  StintAnalysis,
+  StintTireData,
+  StrategySimulation,
+  TelemetryData,
+  TelemetryDetail,
+  TyreStrategyData,
+} from '../interfaces/f1-data.interface.js';
+import { Duration, QualifyingResult, Race, Result } from '../interfaces/ergast.interface.js';
+import { linearFit, mean, median, round, seededRandom } from '../utils/stats.js';
+import {
+  FUEL_EFFECT_SECONDS_PER_LAP,
+  StintFit,
+  StintSample,
+  TimedLap,
+  TimeWindow,
+  fitStint,
+  isNeutralised,
+  isTimed,
+  neutralisedWindows,
+  pooledDegradation,
+} from '../utils/stint-model.js';
+import { buildPeriods, groupIncidents } from '../utils/race-control.js';
+import {
+  PointsSystem,
+  classified,
+  countedPoints,
+  fastestLapDrivers,
+  maxWeekendPoints,
+  pointsSystemForSeason,
+  raceDistance,
+  racePoints,
+  scoreRace,
+  scoreSprint,
+  sprintPoints,
+} from '../utils/points-system.js';
+import { logger } from '../utils/logger.js';
+
+// OpenF1 car_data DRS states 10, 12 and 14 all mean the flap is open
+const DRS_OPEN_FILTER = 'drs>=10';
+
+// Qualifying laps within this share of the driver's best count as push laps
+const PUSH_LAP_RATIO = 1.03;
+
+// A push lap started this many seconds or less after another car crossed
+// the line is treated as run in traffic
+const TRAFFIC_WINDOW_SECONDS = 2;
+
+// Shortest stint the strategy simulator will plan
+const MIN_STINT_LAPS = 5;
+
+// Pit loss used when no stop in the race gives a usable in/out lap pair
+const DEFAULT_PIT_LOSS_SECONDS = 22;
+
+const DRY_COMPOUNDS = ['SOFT', 'MEDIUM', 'HARD'];
+
+// Drivers within this many seconds of each other on track are in a battle
+const BATTLE_GAP_SECONDS = 3;
+
+// The second driver must stop within this many laps of the first for the
+// two stops to count as one pit cycle
+const PIT_CYCLE_LAPS = 5;
+
+// Rounds of alternating compound pace / driver offset estimation
+const JOINT_FIT_ITERATIONS = 10;
+
+// Recent races whose finishing positions drive the championship projection
+const FORM_ROUNDS = 5;
+
+const DEFAULT_SIMULATIONS = 10000;
+
+// Simulation runs between yields to the event loop, so a long projection does
+// not stall other sessions on the HTTP transport
+const SIMULATION_CHUNK = 500;
+
+const FIRST_CONSTRUCTORS_SEASON = 1958;
+
+/**
+ * A strategy to simulate: compounds in stint order and, optionally, the laps
+ * to pit on (chosen to minimise race time when omitted)
+ */
+export interface StrategyPlan {
+  compounds: string[];
+  pit_laps?: number[];
+}
+
+interface RaceModel {
+  models: Map<string, CompoundModel>;
+  totalLaps: number;
+  pitLoss: number;
+  startAge: number;
+}
+
+// Ergast statuses of classified finishers; anything else is a retirement
+const FINISHED_STATUS = /^(Finished|Lapped|\+\d+ Laps?)$/;
+
+// One driver's race as seen by the position chart
+interface PositionTrace {
+  key: string;
+  driverId: string | null;
+  driverNumber: string | null;
+  grid: number | null;
+  lapPositions: Map<number, number>;
+  pitLaps: Set<number>;
+  retired: boolean;
+}
+
+// A driver or constructor in the standings being projected
+interface StandingEntry {
+  id: string;
+  name: string;
+  position: number | null;
+  points: number;
+  wins: number;
+}
+
+// A driver in the current field with their recent finishing positions
+interface DriverForm {
+  driverId: string;
+  constructorId: string | null;
+  positions: number[];
+}
+
+// Running totals for one driver or constructor while re-scoring a season
+interface ScoredEntry {
+  id: string;
+  name: string;
+  rounds: number[];
+  wins: number;
+  // Count of finishes in each position, for countback
+  finishes: number[];
+}
+
+interface FittedStint {
+  driver: number;
+  stint: StintData;
+  fit: StintFit;
+}
+
+interface SessionStintFits {
+  totalLaps: number;
+  lapsByDriver: Map<number, LapData[]>;
+  neutralised: TimeWindow[];
+  stints: FittedStint[];
+}
+
+/**
+ * F1 Analysis Service
+ *
+ * Derived analyses built on top of F1DataService: every method fetches the
+ * raw OpenF1/Ergast data it needs and returns the typed structures from
+ * interfaces/f1-data.interface.ts.
+ */
+export class F1AnalysisService {
+  private static instance: F1AnalysisService;
+
+  private constructor() {}
+
+  public static getInstance(): F1AnalysisService {
+    if (!F1AnalysisService.instance) {
+      F1AnalysisService.instance = new F1AnalysisService();
+    }
+    return F1AnalysisService.instance;
+  }
+
+  private get f1Service(): F1DataService {
+    return F1DataService.getInstance();
+  }
+
+  /**
+   * Head-to-head comparison of two drivers in one session from OpenF1 laps,
+   * stints, intervals and DRS car data over the compared laps
+   */
+  async compareDrivers(
+    sessionKey: string,
+    driverA: string,
+    driverB: string
+  ): Promise<TelemetryData> {
+    const [a, b, intervalsA, intervalsB] = await Promise.all([
+      this.getTelemetryDetail(sessionKey, driverA),
+      this.getTelemetryDetail(sessionKey, driverB),
+      this.f1Service.getIntervals(sessionKey, driverA),
+      this.f1Service.getIntervals(sessionKey, driverB),
+    ]);
+
+    const lapTimesA = new Map(a.detail.lap_numbers.map((lap, i) => [lap, a.detail.lap_times[i]]));
+    const lapTimesB = new Map(b.detail.lap_numbers.map((lap, i) => [lap, b.detail.lap_times[i]]));
+    const lapNumbers = a.detail.lap_numbers.filter(lap => lapTimesB.has(lap));
+    const lapDeltas = lapNumbers.map(lap => round(lapTimesA.get(lap)! - lapTimesB.get(lap)!));
+    const sectorDeltas = [0, 1, 2].map(sector => {
+      const delta = bestSector(a.detail, sector) - bestSector(b.detail, sector);
+      return Number.isFinite(delta) ? round(delta) : null;
+    });
+    const [drsA, drsB] = await Promise.all([
+      this.openDrsSamples(sessionKey, driverA, a.laps, lapNumbers),
+      this.openDrsSamples(sessionKey, driverB, b.laps, lapNumbers),
+    ]);
+
+    return {
+      driver1_telemetry: a.detail,
+      driver2_telemetry: b.detail,
+      lap_numbers: lapNumbers,
+      lap_deltas: lapDeltas,
+      sector_deltas: sectorDeltas,
+      gap_history: this.gapHistory(lapNumbers, lapDeltas, a.laps, sortByDate(intervalsA), sortByDate(intervalsB)),
+      drs_detection: drsA > 0 || drsB > 0,
+    };
+  }
+
+  // Car data samples with DRS open between the start of the driver's first
+  // compared lap and the end of the last one
+  private async openDrsSamples(
+    sessionKey: string,
+    driverNumber: string,
+    laps: LapData[],
+    lapNumbers: number[]
+  ): Promise<number> {
+    const compared = new Set(lapNumbers);
+    const window = laps
+      .filter(lap => compared.has(lap.lap_number))
+      .sort((x, y) => x.lap_number - y.lap_number);
+    const start = window[0]?.date_start;
+    const end = window.length > 0 ? lapEndDate(window[window.length - 1]) : undefined;
+    if (!start || !end) {
+      return 0;
+    }
+    const samples = await this.f1Service.getCarData(
+      driverNumber,
+      sessionKey,
+      `${DRS_OPEN_FILTER}&date>=${encodeURIComponent(start)}&date<=${encodeURIComponent(end)}`
+    );
+    return samples.length;
+  }
+
+  /**
+   * Qualifying breakdown for one round: cut-off margins from the official
+   * classification plus sector bests, theoretical bests, track evolution and
+   * final-run improvements from the OpenF1 qualifying laps
+   */
+  async analyzeQualifying(year: number, round: number): Promise<QualifyingData> {
+    const { data: race } = await this.f1Service.getQualifyingResults(year, round);
+    if (!race?.QualifyingResults?.length) {
+      throw new McpError(ErrorCode.InvalidParams, `No qualifying results for ${year} round ${round}`);
+    }
+    const results = race.QualifyingResults;
+
+    const session = year >= 2023
+      ? await sessionResolver.resolveSession({ year, round, session: 'Qualifying' })
+        .then(resolved => resolved.session)
+        .catch(error => {
+          logger.warn('No OpenF1 qualifying session, using the classification only', { year, round, error: error.message });
+          return undefined;
+        })
+      : undefined;
+    const laps = session ? await this.f1Service.getLaps(session.session_key.toString()) : [];
+
+    const lapsByDriver = new Map<string, LapData[]>();
+    for (const lap of laps) {
+      const driverNumber = lap.driver_number.toString();
+      lapsByDriver.set(driverNumber, [...(lapsByDriver.get(driverNumber) ?? []), lap]);
+    }
+    const pushLaps = [...lapsByDriver.values()].flatMap(driverLaps => {
+      const timed = driverLaps.filter(isTimed);
+      const best = Math.min(...timed.map(lap => lap.lap_duration));
+      return timed
+        .filter(lap => lap.lap_duration <= best * PUSH_LAP_RATIO)
+        .map(lap => ({ lap, lost: lap.lap_duration - best }));
+    });
+
+    const drivers = [...results]
+      .sort((a, b) => a.position - b.position)
+      .map(result => this.describeQualifyingDriver(result, lapsByDriver));
+
+    return {
+      season: race.season,
+      round: race.round,
+      race_name: race.raceName,
+      session_key: session?.session_key ?? null,
+      session_type: session?.session_type ?? 'Qualifying',
+      cutoffs: [qualifyingCutoff(results, 'Q1', 'Q2'), qualifyingCutoff(results, 'Q2', 'Q3')]
+        .filter((cutoff): cutoff is QualifyingCutoff => cutoff !== undefined),
+      pole_margin: poleMargin(results),
+      track_evolution: trackEvolution(pushLaps),
+      sector_improvements: [0, 1, 2].flatMap(sector => sectorImprovement(drivers, sector)),
+      track_position_impact: trafficImpact(pushLaps, laps),
+      drivers,
+    };
+  }
+
+  /**
+   * Per-stint pace and tyre degradation from OpenF1 stints and laps, with
+   * in/out laps, safety car periods, traffic and outliers removed, plus the
+   * degradation of each compound pooled across the stints analysed
+   */
+  async analyzeStints(sessionKey: string, driverNumber?: string): Promise<StintAnalysis> {
+    const { totalLaps, stints } = await this.fitSessionStints(sessionKey, driverNumber);
+
+    const rows: TyreStrategyData[] = stints.map(({ driver, stint, fit }) => {
+      const lapStart = stint.lap_start ?? 1;
+      const lapEnd = stint.lap_end ?? totalLaps;
+      return {
+        driver_number: driver.toString(),
+        stint_number: stint.stint_number,
+        compound: stint.compound ?? 'UNKNOWN',
+        lap_start: lapStart,
+        lap_end: lapEnd,
+        tyre_age_at_start: stint.tyre_age_at_start ?? 0,
+        laps_on_tyre: Math.max(0, lapEnd - lapStart + 1),
+        clean_laps: fit.samples.length,
+        excluded_laps: fit.excluded,
+        average_time: fit.average_time,
+        fuel_corrected_pace: fit.fuel_corrected_pace,
+        degradation: fit.degradation,
+      };
+    });
+
+    const compounds: CompoundDegradation[] = [...samplesByCompound(stints)].map(([compound, stintSamples]) => {
+      const pace = mean(stintSamples.flat().map(sample => sample.fuel_corrected));
+      return {
+        compound,
+        stints: stintSamples.length,
+        clean_laps: stintSamples.flat().length,
+        fuel_corrected_pace: pace !== undefined ? round(pace) : null,
+        degradation: pooledDegradation(stintSamples),
+      };
+    });
+
+    return {
+      session_key: Number(sessionKey),
+      total_laps: totalLaps,
+      fuel_effect: FUEL_EFFECT_SECONDS_PER_LAP,
+      stints: rows,
+      compounds,
+    };
+  }
+
+  /**
+   * Deterministic what-if for one driver's race strategy. Every stint in the
+   * race calibrates a lap model per compound (fuel-corrected pace, the
+   * driver's pace offset and linear degradation), pit loss comes from the
+   * in/out laps of the race's stops, and each alternative is compared with
+   * the same model run over the strategy the driver actually used
+   */
+  async simulateStrategy(
+    sessionKey: string,
+    driverNumber: string,
+    strategies?: StrategyPlan[]
+  ): Promise<StrategySimulation> {
+    const [{ totalLaps, lapsByDriver, neutralised, stints }, pits, results] = await Promise.all([
+      this.fitSessionStints(sessionKey),
+      this.f1Service.getPitStopData(sessionKey),
+      this.f1Service.getSessionResults(sessionKey),
+    ]);
+    const driver = Number(driverNumber);
+    const driverStints = stints.filter(fitted => fitted.driver === driver);
+    if (driverStints.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No stints for driver ${driverNumber} in session ${sessionKey}`);
+    }
+
+    const race: RaceModel = {
+      models: compoundModels(stints, driver),
+      totalLaps,
+      pitLoss: estimatePitLoss(pits, lapsByDriver, neutralised, stints),
+      startAge: driverStints[0].stint.tyre_age_at_start ?? 0,
+    };
+
+    const actualPlan = {
+      compounds: driverStints.map(({ stint }) => stint.compound ?? 'UNKNOWN'),
+      pit_laps: driverStints.slice(0, -1).map(({ stint }, i) =>
+        stint.lap_end ?? (driverStints[i + 1].stint.lap_start ?? 1) - 1
+      ),
+    };
+    const actualTime = modelRaceTime(race, actualPlan.compounds, actualPlan.pit_laps);
+    const finishTimes = new Map(
+      results
+        .filter(result => !result.dnf && !result.dns && !result.dsq && typeof result.duration === 'number')
+        .map(result => [result.driver_number, result.duration as number])
+    );
+    const finishTime = finishTimes.get(driver);
+
+    const describe = (compounds: string[], pitLaps: number[]): SimulatedStrategy => {
+      const modelled = modelRaceTime(race, compounds, pitLaps);
+      const delta = round(modelled - actualTime);
+      const projected = finishTime !== undefined ? round(finishTime + delta) : null;
+      return {
+        compounds,
+        pit_laps: pitLaps,
+        stops: pitLaps.length,
+        modelled_time: round(modelled),
+        time_delta: delta,
+        projected_finish_time: projected,
+        projected_position: projected !== null
+          ? 1 + [...finishTimes].filter(([other, time]) => other !== driver && time < projected).length
+          : null,
+      };
+    };
+
+    const plans = strategies?.length ? strategies : defaultPlans(race);
+    const alternatives = plans
+      .map(plan => {
+        const compounds = plan.compounds.map(compound => compound.toUpperCase());
+        return describe(compounds, plan.pit_laps ?? optimisePitLaps(race, compounds));
+      })
+      .sort((a, b) => a.modelled_time - b.modelled_time);
+
+    return {
+      session_key: Number(sessionKey),
+      driver_number: driverNumber,
+      total_laps: totalLaps,
+      pit_loss: round(race.pitLoss),
+      fuel_effect: FUEL_EFFECT_SECONDS_PER_LAP,
+      compound_models: [...race.models.values()],
+      actual: describe(actualPlan.compounds, actualPlan.pit_laps),
+      alternatives,
+    };
+  }
+
+  /**
+   * Undercut and overcut attempts in a session: every pair of drivers within
+   * a few seconds when one of them pitted, where the other stopped a few
+   * laps later, labelled by who came out ahead once both had stopped
+   */
+  async analyzeUndercuts(sessionKey: string): Promise<PitCycleAnalysis> {
+    const [pits, laps, messages] = await Promise.all([
+      this.f1Service.getPitStopData(sessionKey),
+      this.f1Service.getLaps(sessionKey),
+      this.f1Service.getRaceControlMessages(sessionKey),
+    ]);
+
+    // When each driver crossed the line to start each lap
+    const crossings = new Map<number, Map<number, number>>();
+    for (const lap of laps) {
+      if (lap.date_start) {
+        const driverCrossings = crossings.get(lap.driver_number) ?? new Map<number, number>();
+        driverCrossings.set(lap.lap_number, Date.parse(lap.date_start));
+        crossings.set(lap.driver_number, driverCrossings);
+      }
+    }
+    const gapAt = (attacker: number, defender: number, lap: number): number | undefined => {
+      const attackerTime = crossings.get(attacker)?.get(lap);
+      const defenderTime = crossings.get(defender)?.get(lap);
+      return attackerTime !== undefined && defenderTime !== undefined
+        ? round((attackerTime - defenderTime) / 1000)
+        : undefined;
+    };
+
+    const neutralised = neutralisedWindows(messages);
+    const lapsByDriver = groupByDriver(laps);
+    const underSafetyCar = (driver: number, lapNumber: number) => {
+      const lap = lapsByDriver.get(driver)?.find(candidate => candidate.lap_number === lapNumber);
+      return lap !== undefined && isTimed(lap) && isNeutralised(lap, neutralised);
+    };
+
+    const stops = pits
+      .filter((pit): pit is PitData & { lap_number: number } => pit.lap_number !== undefined)
+      .sort((a, b) => a.lap_number - b.lap_number);
+    const battles: PitCycleBattle[] = [];
+
+    for (const first of stops) {
+      const cycle = stops.filter(stop => stop.driver_number === first.driver_number && stop.lap_number <= first.lap_number).length;
+
+      for (const rival of crossings.keys()) {
+        const gapBefore = gapAt(first.driver_number, rival, first.lap_number);
+        if (rival === first.driver_number || gapBefore === undefined || Math.abs(gapBefore) > BATTLE_GAP_SECONDS) {
+          continue;
+        }
+        // The rival's next stop must come after the first stop, within the cycle
+        const second = stops.find(stop => stop.driver_number === rival && stop.lap_number >= first.lap_number);
+        if (!second || second.lap_number === first.lap_number || second.lap_number - first.lap_number > PIT_CYCLE_LAPS) {
+          continue;
+        }
+        const gapAfter = gapAt(first.driver_number, rival, second.lap_number + 2);
+        if (gapAfter === undefined) {
+          continue;
+        }
+
+        // The driver behind pitting first is an undercut attempt; the driver
+        // behind staying out is an overcut attempt
+        const firstWasBehind = gapBefore > 0;
+        const [attacker, defender] = firstWasBehind
+          ? [first.driver_number, rival]
+          : [rival, first.driver_number];
+        const attackerGapAfter = firstWasBehind ? gapAfter : -gapAfter;
+
+        battles.push({
+          cycle,
+          attacker: attacker.toString(),
+          defender: defender.toString(),
+          first_stopper: first.driver_number.toString(),
+          first_stop_lap: first.lap_number,
+          second_stop_lap: second.lap_number,
+          gap_before: Math.abs(gapBefore),
+          gap_after: attackerGapAfter,
+          outcome: attackerGapAfter < 0 ? (firstWasBehind ? 'undercut' : 'overcut') : 'neutral',
+          safety_car: underSafetyCar(first.driver_number, first.lap_number) ||
+            underSafetyCar(rival, second.lap_number),
+        });
+      }
+    }
+
+    return {
+      session_key: Number(sessionKey),
+      battles,
+      undercuts: battles.filter(battle => battle.outcome === 'undercut').length,
+      overcuts: battles.filter(battle => battle.outcome === 'overcut').length,
+      neutral: battles.filter(battle => battle.outcome === 'neutral').length,
+    };
+  }
+
+  /**
+   * Structured flag timeline for a session from race control messages:
+   * green, sector yellow, VSC, safety car, red flag and chequered periods,
+   * plus investigations and penalties grouped by driver
+   */
+  async getSessionTimeline(sessionKey: string): Promise<SessionTimeline> {
+    const messages = await this.f1Service.getRaceControlMessages(sessionKey);
+    return {
+      session_key: Number(sessionKey),
+      periods: buildPeriods(messages),
+      drivers: groupIncidents(messages),
+    };
+  }
+
+  /**
+   * Position of every driver at the end of each lap of a race, with the
+   * position changes classified as overtakes, pit stops or retirements.
+   * OpenF1 line crossings are used from 2023 onwards, Ergast lap positions
+   * for earlier seasons or when OpenF1 has no data for the race
+   */
+  async getPositionChart(year: number, round: number): Promise<PositionChart> {
+    const openF1 = year >= 2023
+      ? await this.openF1PositionTraces(year, round).catch(error => {
+        logger.warn('No OpenF1 lap data for the race, using Ergast lap positions', { year, round, error: error.message });
+        return undefined;
+      })
+      : undefined;
+    const traces = openF1?.traces ?? await this.ergastPositionTraces(year, round);
+
+    const lastLap = Math.max(0, ...traces.flatMap(trace => [...trace.lapPositions.keys()]));
+    const laps = Array.from({ length: lastLap + 1 }, (_, lap) => lap);
+    const positionAt = (trace: PositionTrace, lap: number) =>
+      (lap === 0 ? trace.grid : trace.lapPositions.get(lap)) ?? null;
+    const ordered = [...traces].sort((a, b) =>
+      b.lapPositions.size - a.lapPositions.size ||
+      (positionAt(a, a.lapPositions.size) ?? Infinity) - (positionAt(b, b.lapPositions.size) ?? Infinity)
+    );
+
+    return {
+      season: year,
+      round,
+      source: openF1 ? 'openf1' : 'ergast',
+      session_key: openF1?.sessionKey ?? null,
+      laps,
+      drivers: ordered.map(trace => ({
+        driver_id: trace.driverId,
+        driver_number: trace.driverNumber,
+        positions: laps.map(lap => positionAt(trace, lap)),
+      })),
+      changes: positionChanges(ordered, lastLap, positionAt),
+    };
+  }
+
+  /**
+   * Title scenarios from the standings after a round (the latest by default):
+   * who can still win with the points left under the season's points system,
+   * what the leader needs to clinch at the next round, and Monte-Carlo odds
+   * drawn from each driver's recent finishing positions
+   */
+  async getChampionshipScenarios(
+    year: number,
+    championship: ChampionshipType = 'drivers',
+    afterRound?: number,
+    simulations: number = DEFAULT_SIMULATIONS
+  ): Promise<ChampionshipScenarios> {
+    const [{ data: standings }, { data: calendar }] = await Promise.all([
+      championship === 'drivers'
+        ? this.f1Service.getDriverStandings(year, afterRound)
+        : this.f1Service.getConstructorStandings(year, afterRound),
+      this.f1Service.getRaceCalendar(year),
+    ]);
+    const entries: StandingEntry[] = championship === 'drivers'
+      ? (standings?.DriverStandings ?? []).map(standing => ({
+        id: standing.Driver.driverId,
+        name: `${standing.Driver.givenName} ${standing.Driver.familyName}`,
+        position: standing.position ?? null,
+        points: standing.points,
+        wins: standing.wins,
+      }))
+      : (standings?.ConstructorStandings ?? []).map(standing => ({
+        id: standing.Constructor.constructorId,
+        name: standing.Constructor.name,
+        position: standing.position ?? null,
+        points: standing.points,
+        wins: standing.wins,
+      }));
+    if (!standings || entries.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No ${championship} standings for ${year}${afterRound ? ` after round ${afterRound}` : ''}`
+      );
+    }
+    entries.sort((a, b) => b.points - a.points || b.wins - a.wins);
+
+    const system = pointsSystemForSeason(year);
+    const cars = championship === 'drivers' || system.constructorBestCarOnly ? 1 : 2;
+    const remaining = calendar
+      .filter(race => race.round > standings.round)
+      .sort((a, b) => a.round - b.round);
+    const sprint = (race: Race) => race.Sprint !== undefined && system.sprint.length > 0;
+    const available = (races: Race[]) =>
+      races.reduce((total, race) => total + maxWeekendPoints(system, sprint(race), cars), 0);
+    const pointsAvailable = available(remaining);
+
+    const [leader, ...rivals] = entries;
+    const contenders = rivals.filter(entry => entry.points + pointsAvailable >= leader.points);
+    const decided = contenders.length === 0;
+
+    const form = await this.recentForm(year, standings.round);
+    const projection = await simulateSeason(
+      entries,
+      form,
+      remaining.map(sprint),
+      system,
+      championship,
+      simulations,
+      seededRandom(year * 100 + standings.round)
+    );
+
+    const next = remaining[0];
+    let nextRound: ChampionshipScenarios['next_round'] = null;
+    if (next) {
+      const weekend = maxWeekendPoints(system, sprint(next), cars);
+      const after = pointsAvailable - weekend;
+      const margins = contenders.map(rival => ({
+        rival: rival.id,
+        margin: after - (leader.points - rival.points) + 1,
+      }));
+      nextRound = {
+        round: next.round,
+        race_name: next.raceName,
+        sprint: sprint(next),
+        points_available: weekend,
+        leader_can_clinch: !decided && margins.every(({ margin }) => margin <= weekend),
+        margins,
+      };
+    }
+
+    return {
+      season: year,
+      round: standings.round,
+      championship,
+      points_system: system.name,
+      remaining_rounds: remaining.length,
+      remaining_sprints: remaining.filter(sprint).length,
+      points_available: pointsAvailable,
+      decided,
+      leader: leader.id,
+      next_round: nextRound,
+      simulations,
+      form_rounds: form.rounds,
+      contenders: entries.map((entry): ChampionshipContender => {
+        const outcome = projection.get(entry.id)!;
+        return {
+          ...entry,
+          max_points: entry.points + pointsAvailable,
+          can_win: entry === leader || contenders.includes(entry),
+          title_probability: round(outcome.titles / simulations),
+          projected_points: round(outcome.points / simulations, 1),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Re-scores every race and sprint of `year` under the points rules of
+   * `rulesYear` (fastest-lap and sprint points, shared drives, shortened
+   * races and dropped results) and compares the result with the real
+   * standings. Dropped results only apply to the drivers' championship
+   */
+  async recomputeStandings(
+    year: number,
+    rulesYear: number,
+    championship: ChampionshipType = 'drivers'
+  ): Promise<RecomputedStandings> {
+    if (championship === 'constructors' && year < FIRST_CONSTRUCTORS_SEASON) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The constructors' championship started in ${FIRST_CONSTRUCTORS_SEASON}`
+      );
+    }
+    const source = pointsSystemForSeason(year);
+    const target = pointsSystemForSeason(rulesYear);
+    const [{ data: races }, { data: sprints }, { data: actual }] = await Promise.all([
+      this.f1Service.getSeasonResults(year),
+      this.f1Service.getSeasonSprintResults(year),
+      championship === 'drivers'
+        ? this.f1Service.getDriverStandings(year)
+        : this.f1Service.getConstructorStandings(year),
+    ]);
+    if (races.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No race results for ${year}`);
+    }
+
+    const rounds = [...races].sort((a, b) => a.round - b.round);
+    const entries = new Map<string, ScoredEntry>();
+    const entryFor = (result: Result): ScoredEntry | undefined => {
+      const id = championship === 'drivers' ? result.Driver.driverId : result.Constructor?.constructorId;
+      if (!id) {
+        return undefined;
+      }
+      let entry = entries.get(id);
+      if (!entry) {
+        entry = {
+          id,
+          name: championship === 'drivers'
+            ? `${result.Driver.givenName} ${result.Driver.familyName}`
+            : result.Constructor!.name,
+          rounds: new Array(rounds.length).fill(0),
+          wins: 0,
+          finishes: [],
+        };
+        entries.set(id, entry);
+      }
+      return entry;
+    };
+    // Constructors take either every car's points or only the best car's
+    const credit = (results: Result[], points: number[], index: number, bestCarOnly: boolean) => {
+      const scored = new Map<ScoredEntry, number[]>();
+      results.forEach((result, row) => {
+        const entry = entryFor(result);
+        if (entry) {
+          scored.set(entry, [...(scored.get(entry) ?? []), points[row]]);
+        }
+      });
+      for (const [entry, values] of scored) {
+        entry.rounds[index] += bestCarOnly
+          ? Math.max(...values)
+          : values.reduce((total, value) => total + value, 0);
+      }
+    };
+
+    const shortenedRaces: RecomputedStandings['shortened_races'] = [];
+    let sprintCount = 0;
+    rounds.forEach((race, index) => {
+      const results = race.Results ?? [];
+      const distance = raceDistance(race, source);
+      if (distance < 1) {
+        shortenedRaces.push({ round: race.round, race_name: race.raceName, distance });
+      }
+      const bestCarOnly = championship === 'constructors' && target.constructorBestCarOnly;
+      credit(results, scoreRace(target, results, distance, fastestLapDrivers(race, source, distance)), index, bestCarOnly);
+
+      const sprint = sprints.find(entry => entry.round === race.round)?.SprintResults ?? [];
+      if (sprint.length > 0 && target.sprint.length > 0) {
+        sprintCount++;
+        credit(sprint, scoreSprint(target, sprint), index, bestCarOnly);
+      }
+
+      for (const result of results) {
+        const entry = entryFor(result);
+        if (entry && classified(result)) {
+          entry.finishes[result.position - 1] = (entry.finishes[result.position - 1] ?? 0) + 1;
+          if (result.position === 1) {
+            entry.wins++;
+          }
+        }
+      }
+    });
+
+    const counting = championship === 'drivers' ? target : { ...target, dropped: undefined };
+    const totals = [...entries.values()].map(entry => ({
+      entry,
+      points: countedPoints(counting, entry.rounds),
+      gross: entry.rounds.reduce((total, value) => total + value, 0),
+    }));
+    totals.sort((a, b) => b.points - a.points || countback(a.entry.finishes, b.entry.finishes));
+
+    const actualStandings = (championship === 'drivers'
+      ? actual?.DriverStandings?.map(standing => ({ id: standing.Driver.driverId, ...standing }))
+      : actual?.ConstructorStandings?.map(standing => ({ id: standing.Constructor.constructorId, ...standing }))) ?? [];
+
+    const standings = totals.map(({ entry, points, gross }, index): RecomputedStanding => {
+      const real = actualStandings.find(standing => standing.id === entry.id);
+      const realPosition = real?.position ?? null;
+      return {
+        position: index + 1,
+        id: entry.id,
+        name: entry.name,
+        points: round(points, 2),
+        gross_points: round(gross, 2),
+        wins: entry.wins,
+        actual_position: realPosition,
+        actual_points: real?.points ?? null,
+        position_change: realPosition !== null ? realPosition - (index + 1) : null,
+      };
+    });
+
+    return {
+      season: year,
+      championship,
+      rules_season: rulesYear,
+      points_system: target.name,
+      dropped_results: championship === 'drivers' ? target.dropped?.best ?? null : null,
+      rounds: rounds.length,
+      sprints: sprintCount,
+      shortened_races: shortenedRaces,
+      champion: standings[0]?.id ?? '',
+      actual_champion: actualStandings.find(standing => standing.position === 1)?.id ?? null,
+      standings,
+    };
+  }
+
+  private async ergastPositionTraces(year: number, round: number): Promise<PositionTrace[]> {
+    const [{ data: lapRace }, { data: resultRace }, { data: pitRace }] = await Promise.all([
+      this.f1Service.getLapTimes(year, round),
+      this.f1Service.getHistoricRaceResults(year, round),
+      this.f1Service.getHistoricPitStops(year, round),
+    ]);
+    if (!lapRace?.Laps?.length) {
+      throw new McpError(ErrorCode.InvalidParams, `No lap-by-lap data for ${year} round ${round}`);
+    }
+
+    const traces = new Map<string, PositionTrace>();
+    const traceFor = (driverId: string) => {
+      let trace = traces.get(driverId);
+      if (!trace) {
+        trace = {
+          key: driverId,
+          driverId,
+          driverNumber: null,
+          grid: null,
+          lapPositions: new Map(),
+          pitLaps: new Set(),
+          retired: false,
+        };
+        traces.set(driverId, trace);
+      }
+      return trace;
+    };
+
+    for (const lap of lapRace.Laps) {
+      for (const timing of lap.Timings) {
+        traceFor(timing.driverId).lapPositions.set(lap.number, timing.position);
+      }
+    }
+    for (const result of resultRace?.Results ?? []) {
+      const trace = traceFor(result.Driver.driverId);
+      trace.driverNumber = result.number?.toString() ?? null;
+      // Grid 0 is a pit lane start
+      trace.grid = result.grid ? result.grid : null;
+      trace.retired = !FINISHED_STATUS.test(result.status);
+    }
+    for (const stop of pitRace?.PitStops ?? []) {
+      traceFor(stop.driverId).pitLaps.add(stop.lap);
+    }
+    return [...traces.values()];
+  }
+
+  // Positions from the order drivers crossed the line at the end of each lap
+  private async openF1PositionTraces(
+    year: number,
+    round: number
+  ): Promise<{ sessionKey: number; traces: PositionTrace[] }> {
+    const { session } = await sessionResolver.resolveSession({ year, round, session: 'Race' });
+    const sessionKey = session.session_key.toString();
+    const [laps, grid, pits, results] = await Promise.all([
+      this.f1Service.getLaps(sessionKey),
+      this.f1Service.getStartingGrid(sessionKey),
+      this.f1Service.getPitStopData(sessionKey),
+      this.f1Service.getSessionResults(sessionKey),
+    ]);
+    if (laps.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No OpenF1 laps for session ${sessionKey}`);
+    }
+
+    const lapsByDriver = groupByDriver(laps);
+    const crossings = new Map<number, { driver: number; time: number }[]>();
+    for (const [driver, driverLaps] of lapsByDriver) {
+      const starts = new Map(driverLaps.map(lap => [lap.lap_number, lap.date_start]));
+      for (const lap of driverLaps) {
+        const next = starts.get(lap.lap_number + 1);
+        const time = next
+          ? Date.parse(next)
+          : lap.date_start && lap.lap_duration !== null
+            ? Date.parse(lap.date_start) + lap.lap_duration * 1000
+            : undefined;
+        if (time !== undefined) {
+          crossings.set(lap.lap_number, [...(crossings.get(lap.lap_number) ?? []), { driver, time }]);
+        }
+      }
+    }
+
+    const driverIds = new Map(await Promise.all([...lapsByDriver.keys()].map(async driver =>
+      [driver, await entityResolver.driverIdForNumber(driver, year)] as const
+    )));
+    const traces = new Map([...lapsByDriver.keys()].map(driver => [driver, {
+      key: driverIds.get(driver) ?? driver.toString(),
+      driverId: driverIds.get(driver) ?? null,
+      driverNumber: driver.toString(),
+      grid: grid.find(slot => slot.driver_number === driver)?.position ?? null,
+      lapPositions: new Map<number, number>(),
+      pitLaps: new Set(pits.filter(pit => pit.driver_number === driver && pit.lap_number !== undefined)
+        .map(pit => pit.lap_number!)),
+      retired: results.some(result => result.driver_number === driver && result.dnf),
+    }]));
+
+    for (const [lap, order] of crossings) {
+      order
+        .sort((a, b) => a.time - b.time)
+        .forEach(({ driver }, index) => traces.get(driver)?.lapPositions.set(lap, index + 1));
+    }
+    return { sessionKey: session.session_key, traces: [...traces.values()] };
+  }
+
+  // Finishing positions over the last FORM_ROUNDS races up to `round` for
+  // every driver who started the most recent one, with their latest team
+  private async recentForm(year: number, round: number): Promise<{ rounds: number[]; drivers: DriverForm[] }> {
+    const rounds = Array.from({ length: Math.min(FORM_ROUNDS, round) }, (_, index) => round - index);
+    const races = await Promise.all(rounds.map(formRound => this.f1Service.getHistoricRaceResults(year, formRound)));
+
+    const drivers = new Map<string, DriverForm>();
+    races.forEach(({ data: race }, index) => {
+      for (const result of race?.Results ?? []) {
+        const driverId = result.Driver.driverId;
+        if (index === 0) {
+          drivers.set(driverId, {
+            driverId,
+            constructorId: result.Constructor?.constructorId ?? null,
+            positions: [],
+          });
+        }
+        drivers.get(driverId)?.positions.push(result.position);
+      }
+    });
+    return {
+      rounds: rounds.filter((_, index) => races[index].data?.Results?.length),
+      drivers: [...drivers.values()],
+    };
+  }
+
+  /**
+   * Fits every stint in a session (or of one driver) with the stint model
+   */
+  private async fitSessionStints(sessionKey: string, driverNumber?: string): Promise<SessionStintFits> {
+    const [laps, stints, intervals, messages] = await Promise.all([
+      this.f1Service.getLaps(sessionKey, driverNumber),
+      this.f1Service.getStints(sessionKey, driverNumber),
+      this.f1Service.getIntervals(sessionKey, driverNumber),
+      this.f1Service.getRaceControlMessages(sessionKey),
+    ]);
+
+    const totalLaps = Math.max(0, ...laps.map(lap => lap.lap_number));
+    const neutralised = neutralisedWindows(messages);
+    const lapsByDriver = groupByDriver(laps);
+    const intervalsByDriver = groupByDriver(intervals);
+    const fits: FittedStint[] = [];
+
+    for (const [driver, driverStints] of [...groupByDriver(stints)].sort(([a], [b]) => a - b)) {
+      const sorted = driverStints.sort((a, b) => a.stint_number - b.stint_number);
+      sorted.forEach((stint, index) => {
+        fits.push({
+          driver,
+          stint,
+          fit: fitStint(stint, lapsByDriver.get(driver) ?? [], {
+            totalLaps,
+            finalStint: index === sorted.length - 1,
+            neutralised,
+            intervals: intervalsByDriver.get(driver),
+          }),
+        });
+      });
+    }
+
+    return { totalLaps, lapsByDriver, neutralised, stints: fits };
+  }
+
+  private async getTelemetryDetail(
+    sessionKey: string,
+    driverNumber: string
+  ): Promise<{ detail: TelemetryDetail; laps: LapData[] }> {
+    const [laps, stints] = await Promise.all([
+      this.f1Service.getLaps(sessionKey, driverNumber),
+      this.f1Service.getStints(sessionKey, driverNumber),
+    ]);
+
+    const timed = laps
+      .filter(isTimed)
+      .sort((a, b) => a.lap_number - b.lap_number);
+    const stintData = this.describeStints(stints, laps);
+    const maxSpeed = (key: 'i1_speed' | 'i2_speed' | 'st_speed') =>
+      Math.max(0, ...laps.map(lap => lap[key] ?? 0));
+
+    const detail: TelemetryDetail = {
+      driver_number: Number(driverNumber),
+      lap_numbers: timed.map(lap => lap.lap_number),
+      lap_times: timed.map(lap => lap.lap_duration),
+      sector_times: timed.map(lap => [
+        lap.duration_sector_1,
+        lap.duration_sector_2,
+        lap.duration_sector_3,
+      ]),
+      speed_trap: [maxSpeed('i1_speed'), maxSpeed('i2_speed'), maxSpeed('st_speed')],
+      tire_data: stintData[stintData.length - 1] ?? { compound: 'UNKNOWN', age: 0, wear: 0 },
+      stints: stintData,
+    };
+
+    return { detail, laps };
+  }
+
+  private describeQualifyingDriver(
+    result: QualifyingResult,
+    lapsByDriver: Map<string, LapData[]>
+  ): QualifyingDriverAnalysis {
+    const driverNumber = (result.number ?? result.Driver.permanentNumber)?.toString() ?? '';
+    const laps = (lapsByDriver.get(driverNumber) ?? []).sort((a, b) => a.lap_number - b.lap_number);
+    const classified = [result.Q1, result.Q2, result.Q3]
+      .map(seconds)
+      .filter((time): time is number => time !== undefined);
+
+    const sectorBests = [0, 1, 2].map(sector => {
+      const times = laps
+        .map(lap => [lap.duration_sector_1, lap.duration_sector_2, lap.duration_sector_3][sector])
+        .filter((time): time is number => time !== null && time > 0);
+      return times.length > 0 ? round(Math.min(...times)) : null;
+    });
+    const theoreticalBest = sectorBests.every(time => time !== null)
+      ? round(sectorBests.reduce((total: number, time) => total + time!, 0))
+      : null;
+
+    // A new run starts at every pit out lap
+    const runs: TimedLap[][] = [];
+    for (const lap of laps) {
+      if (lap.is_pit_out_lap || runs.length === 0) {
+        runs.push([]);
+      }
+      if (isTimed(lap)) {
+        runs[runs.length - 1].push(lap);
+      }
+    }
+    const runBests = runs
+      .filter(run => run.length > 0)
+      .map(run => Math.min(...run.map(lap => lap.lap_duration)));
+    const finalRunDelta = runBests.length > 1
+      ? round(runBests[runBests.length - 1] - Math.min(...runBests.slice(0, -1)))
+      : null;
+
+    return {
+      driver_id: result.Driver.driverId,
+      driver_number: driverNumber,
+      position: result.position,
+      best_lap: classified.length > 0 ? Math.min(...classified) : null,
+      sector_bests: sectorBests,
+      theoretical_best: theoreticalBest,
+      improved_on_final_run: finalRunDelta === null ? null : finalRunDelta < 0,
+      final_run_delta: finalRunDelta,
+    };
+  }
+
+  /**
+   * Tyre compound, age and fitted wear (seconds lost per lap) for each stint
+   */
+  private describeStints(stints: StintData[], laps: LapData[]): StintTireData[] {
+    const totalLaps = Math.max(0, ...laps.map(lap => lap.lap_number));
+    const sorted = [...stints].sort((a, b) => a.stint_number - b.stint_number);
+
+    return sorted.map((stint, index) => {
+      const lapStart = stint.lap_start ?? 1;
+      const lapEnd = stint.lap_end ?? totalLaps;
+      const fit = fitStint(stint, laps, { totalLaps, finalStint: index === sorted.length - 1 });
+      return {
+        stint_number: stint.stint_number,
+        lap_start: lapStart,
+        lap_end: lapEnd,
+        compound: stint.compound ?? 'UNKNOWN',
+        age: (stint.tyre_age_at_start ?? 0) + Math.max(0, lapEnd - lapStart + 1),
+        wear: fit.degradation ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Gap between the two drivers at the end of each common lap
+   * Uses race intervals (gap to leader) where available and falls back to
+   * cumulative lap time deltas in sessions without intervals
+   */
+  private gapHistory(
+    lapNumbers: number[],
+    lapDeltas: number[],
+    lapsA: LapData[],
+    intervalsA: IntervalData[],
+    intervalsB: IntervalData[]
+  ): number[] {
+    const cumulative: number[] = [];
+    lapDeltas.reduce((total, delta) => {
+      cumulative.push(round(total + delta));
+      return total + delta;
+    }, 0);
+
+    if (intervalsA.length === 0 || intervalsB.length === 0) {
+      return cumulative;
+    }
+
+    const lapEnds = new Map(lapsA.map(lap => [lap.lap_number, lapEndDate(lap)]));
+    return lapNumbers.map((lap, i) => {
+      const lapEnd = lapEnds.get(lap);
+      const gapA = lapEnd ? latestGap(intervalsA, lapEnd) : undefined;
+      const gapB = lapEnd ? latestGap(intervalsB, lapEnd) : undefined;
+      return gapA !== undefined && gapB !== undefined ? round(gapA - gapB) : cumulative[i];
+    });
+  }
+}
+
+function groupByDriver<T extends { driver_number: number }>(rows: T[]): Map<number, T[]> {
+  const grouped = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = grouped.get(row.driver_number);
+    if (group) {
+      group.push(row);
+    } else {
+      grouped.set(row.driver_number, [row]);
+    }
+  }
+  return grouped;
+}
+
+function samplesByCompound(stints: FittedStint[]): Map<string, StintSample[][]> {
+  const grouped = new Map<string, StintSample[][]>();
+  for (const { stint, fit } of stints) {
+    const compound = stint.compound ?? 'UNKNOWN';
+    grouped.set(compound, [...(grouped.get(compound) ?? []), fit.samples]);
+  }
+  return grouped;
+}
+
+// Pace of each compound for one driver. Degradation is pooled over the
+// field; new-tyre pace per compound and each driver's pace offset are
+// estimated together, so a compound run only by slower cars isn't
+// mistaken for a slower compound
+function compoundModels(stints: FittedStint[], driver: number): Map<string, CompoundModel> {
+  const grouped = [...samplesByCompound(stints)].filter(([, stintSamples]) => stintSamples.flat().length > 0);
+  const rates = new Map(grouped.map(([compound, stintSamples]) => [compound, pooledDegradation(stintSamples)]));
+  const fallback = median([...rates.values()].filter((rate): rate is number => rate !== null)) ?? 0;
+
+  // Fuel-corrected pace on new tyres for every clean lap
+  const laps = stints.flatMap(({ driver: lapDriver, stint, fit }) => {
+    const compound = stint.compound ?? 'UNKNOWN';
+    const rate = rates.get(compound) ?? fallback;
+    return fit.samples.map(sample => ({
+      driver: lapDriver,
+      compound,
+      pace: sample.fuel_corrected - rate * sample.tyre_age,
+    }));
+  });
+
+  const base = new Map<string, number>();
+  const offsets = new Map<number, number>();
+  for (let iteration = 0; iteration < JOINT_FIT_ITERATIONS; iteration++) {
+    for (const [compound] of grouped) {
+      base.set(compound, mean(laps
+        .filter(lap => lap.compound === compound)
+        .map(lap => lap.pace - (offsets.get(lap.driver) ?? 0)))!);
+    }
+    for (const lapDriver of new Set(laps.map(lap => lap.driver))) {
+      offsets.set(lapDriver, mean(laps
+        .filter(lap => lap.driver === lapDriver)
+        .map(lap => lap.pace - base.get(lap.compound)!))!);
+    }
+  }
+
+  return new Map(grouped.map(([compound]) => [compound, {
+    compound,
+    base_pace: round(base.get(compound)! + (offsets.get(driver) ?? 0)),
+    degradation: rates.get(compound) ?? fallback,
+  }]));
+}
+
+// Time lost to a stop: the in and out laps against the driver's typical clean
+// lap, over every stop made under green flag conditions
+function estimatePitLoss(
+  pits: PitData[],
+  lapsByDriver: Map<number, LapData[]>,
+  neutralised: TimeWindow[],
+  stints: FittedStint[]
+): number {
+  const losses = pits.flatMap(pit => {
+    const laps = lapsByDriver.get(pit.driver_number) ?? [];
+    const inLap = laps.find(lap => lap.lap_number === pit.lap_number);
+    const outLap = laps.find(lap => lap.lap_number === (pit.lap_number ?? 0) + 1);
+    const typical = median(stints
+      .filter(fitted => fitted.driver === pit.driver_number)
+      .flatMap(({ fit }) => fit.samples.map(sample => sample.lap_time)));
+    if (!inLap || !outLap || !isTimed(inLap) || !isTimed(outLap) || typical === undefined ||
+      isNeutralised(inLap, neutralised) || isNeutralised(outLap, neutralised)) {
+      return [];
+    }
+    const loss = inLap.lap_duration + outLap.lap_duration - 2 * typical;
+    return loss > 0 ? [loss] : [];
+  });
+
+  return median(losses) ??
+    median(pits.flatMap(pit => (pit.pit_duration !== null ? [pit.pit_duration] : []))) ??
+    DEFAULT_PIT_LOSS_SECONDS;
+}
+
+function modelRaceTime(race: RaceModel, compounds: string[], pitLaps: number[]): number {
+  const models = compounds.map(compound => {
+    const model = race.models.get(compound);
+    if (!model) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Not enough clean laps on ${compound} to model it. Modelled compounds: ${[...race.models.keys()].join(', ') || 'none'}`
+      );
+    }
+    return model;
+  });
+  const validStops = pitLaps.length === compounds.length - 1 &&
+    pitLaps.every((lap, i) => lap >= 1 && lap < race.totalLaps && (i === 0 || lap > pitLaps[i - 1]));
+  if (!validStops) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Give one pit lap per stop (${compounds.length - 1}), in increasing order between 1 and ${race.totalLaps - 1}`
+    );
+  }
+
+  let time = race.pitLoss * pitLaps.length;
+  let stint = 0;
+  let stintStart = 1;
+  for (let lap = 1; lap <= race.totalLaps; lap++) {
+    if (stint < pitLaps.length && lap > pitLaps[stint]) {
+      stintStart = pitLaps[stint] + 1;
+      stint++;
+    }
+    const age = lap - stintStart + (stint === 0 ? race.startAge : 0);
+    const model = models[stint];
+    time += model.base_pace + model.degradation * age + FUEL_EFFECT_SECONDS_PER_LAP * (race.totalLaps - lap);
+  }
+  return time;
+}
+
+// Fastest pit laps for a compound sequence: exhaustive for up to two stops,
+// equal stints beyond that
+function optimisePitLaps(race: RaceModel, compounds: string[]): number[] {
+  const stops = compounds.length - 1;
+  const first = MIN_STINT_LAPS;
+  const last = race.totalLaps - MIN_STINT_LAPS;
+  if (stops <= 0) {
+    return [];
+  }
+  if (stops > 2 || last < first) {
+    return Array.from({ length: stops }, (_, i) => Math.round(((i + 1) * race.totalLaps) / (stops + 1)));
+  }
+
+  let best: { pitLaps: number[]; time: number } | undefined;
+  for (let a = first; a <= last; a++) {
+    const candidates = stops === 1
+      ? [[a]]
+      : Array.from({ length: Math.max(0, last - a - MIN_STINT_LAPS + 1) }, (_, i) => [a, a + MIN_STINT_LAPS + i]);
+    for (const pitLaps of candidates) {
+      const time = modelRaceTime(race, compounds, pitLaps);
+      if (!best || time < best.time) {
+        best = { pitLaps, time };
+      }
+    }
+  }
+  return best?.pitLaps ?? [];
+}
+
+// One- and two-stop plans over the dry compounds seen in the race, using at
+// least two different compounds as the regulations require
+function defaultPlans(race: RaceModel): StrategyPlan[] {
+  const dry = DRY_COMPOUNDS.filter(compound => race.models.has(compound));
+  const oneStop = dry.flatMap(a => dry.filter(b => b !== a).map(b => [a, b]));
+  const twoStop = dry.flatMap(a => dry.flatMap(b => dry.map(c => [a, b, c])))
+    .filter(compounds => new Set(compounds).size > 1);
+  return [...oneStop, ...twoStop].map(compounds => ({ compounds }));
+}
+
+// Pairs of drivers who swapped places on a lap: a pass is put down to a pit
+// stop when the driver losing the place stopped on that lap or the one
+// before, and drivers dropping out of the order are retirements
+function positionChanges(
+  traces: PositionTrace[],
+  lastLap: number,
+  positionAt: (trace: PositionTrace, lap: number) => number | null
+): PositionChange[] {
+  const changes: PositionChange[] = [];
+
+  for (let lap = 1; lap <= lastLap; lap++) {
+    for (const gained of traces) {
+      const [before, after] = [positionAt(gained, lap - 1), positionAt(gained, lap)];
+      if (before === null || after === null) {
+        continue;
+      }
+      for (const lost of traces) {
+        const [lostBefore, lostAfter] = [positionAt(lost, lap - 1), positionAt(lost, lap)];
+        if (lost === gained || lostBefore === null || lostAfter === null) {
+          continue;
+        }
+        if (before > lostBefore && after < lostAfter) {
+          changes.push({
+            lap,
+            type: lost.pitLaps.has(lap) || lost.pitLaps.has(lap - 1) ? 'pit_stop' : 'overtake',
+            gained: gained.key,
+            lost: lost.key,
+          });
+        }
+      }
+    }
+
+    for (const trace of traces) {
+      const lastCompleted = Math.max(0, ...trace.lapPositions.keys());
+      if (trace.retired && lastCompleted === lap - 1) {
+        changes.push({ lap, type: 'retirement', gained: null, lost: trace.key });
+      }
+    }
+  }
+  return changes;
+}
+
+// Monte-Carlo run of the remaining rounds (true for sprint weekends): each
+// driver's finishing position in every race and sprint is drawn from their
+// recent results, with ties broken at random, and scored under the season's
+// points system. The fastest-lap point goes to a random eligible finisher.
+// Returns title count and summed final points per standings entry
+async function simulateSeason(
+  entries: StandingEntry[],
+  form: { drivers: DriverForm[] },
+  rounds: boolean[],
+  system: PointsSystem,
+  championship: ChampionshipType,
+  simulations: number,
+  random: () => number
+): Promise<Map<string, { titles: number; points: number }>> {
+  const index = new Map(entries.map((entry, position) => [entry.id, position]));
+  const field = form.drivers
+    .map(driver => ({
+      positions: driver.positions,
+      entry: index.get(championship === 'drivers' ? driver.driverId : driver.constructorId ?? '') ?? -1,
+    }))
+    .filter(driver => driver.positions.length > 0);
+  const titles = new Array<number>(entries.length).fill(0);
+  const totals = new Array<number>(entries.length).fill(0);
+
+  const classify = () => field
+    .map(driver => ({
+      entry: driver.entry,
+      draw: driver.positions[Math.floor(random() * driver.positions.length)] + random(),
+    }))
+    .sort((a, b) => a.draw - b.draw)
+    .map(driver => driver.entry);
+
+  for (let run = 0; run < simulations; run++) {
+    if (run > 0 && run % SIMULATION_CHUNK === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    const points = entries.map(entry => entry.points);
+    const wins = entries.map(entry => entry.wins);
+    const score = (entry: number, value: number) => {
+      if (entry >= 0) {
+        points[entry] += value;
+      }
+    };
+
+    for (const sprintWeekend of rounds) {
+      if (sprintWeekend) {
+        classify().forEach((entry, position) => score(entry, sprintPoints(system, position + 1)));
+      }
+      const order = classify();
+      order.forEach((entry, position) => score(entry, racePoints(system, position + 1)));
+      if (order[0] >= 0) {
+        wins[order[0]]++;
+      }
+      if (system.fastestLap > 0 && order.length > 0) {
+        const eligible = Math.min(order.length, system.fastestLapMaxPosition ?? order.length);
+        score(order[Math.floor(random() * eligible)], system.fastestLap);
+      }
+    }
+
+    let champion = 0;
+    for (let entry = 1; entry < entries.length; entry++) {
+      if (points[entry] > points[champion] || (points[entry] === points[champion] && wins[entry] > wins[champion])) {
+        champion = entry;
+      }
+    }
+    titles[champion]++;
+    points.forEach((value, entry) => totals[entry] += value);
+  }
+
+  return new Map(entries.map((entry, position) => [
+    entry.id,
+    { titles: titles[position], points: totals[position] },
+  ]));
+}
+
+// Ties on points go to the entry with more wins, then more second places and
+// so on
+function countback(a: number[], b: number[]): number {
+  for (let position = 0; position < Math.max(a.length, b.length); position++) {
+    const difference = (b[position] ?? 0) - (a[position] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function seconds(duration: Duration | undefined): number | undefined {
+  return duration?.millis !== undefined ? duration.millis / 1000 : undefined;
+}
+
+// Drivers who set a time in `next` went through; everyone else with a time
+// in `segment` was knocked out
+function qualifyingCutoff(
+  results: QualifyingResult[],
+  segment: 'Q1' | 'Q2',
+  next: 'Q2' | 'Q3'
+): QualifyingCutoff | undefined {
+  const timed = results.filter(result => seconds(result[segment]) !== undefined);
+  const through = timed.filter(result => result[next] !== undefined);
+  const out = timed.filter(result => result[next] === undefined);
+  if (through.length === 0 || out.length === 0) {
+    return undefined;
+  }
+
+  const lastThrough = through.reduce((slowest, result) =>
+    seconds(result[segment])! > seconds(slowest[segment])! ? result : slowest
+  );
+  const firstOut = out.reduce((fastest, result) =>
+    seconds(result[segment])! < seconds(fastest[segment])! ? result : fastest
+  );
+  return {
+    segment,
+    cutoff_position: through.length,
+    cutoff_time: seconds(lastThrough[segment])!,
+    margin: round(seconds(firstOut[segment])! - seconds(lastThrough[segment])!),
+    last_through: lastThrough.Driver.driverId,
+    first_out: firstOut.Driver.driverId,
+  };
+}
+
+// Gap from pole to second place in the last segment both took part in
+function poleMargin(results: QualifyingResult[]): number | null {
+  const pole = results.find(result => result.position === 1);
+  const second = results.find(result => result.position === 2);
+  if (!pole || !second) {
+    return null;
+  }
+  for (const segment of ['Q3', 'Q2', 'Q1'] as const) {
+    const [poleTime, secondTime] = [seconds(pole[segment]), seconds(second[segment])];
+    if (poleTime !== undefined && secondTime !== undefined) {
+      return round(secondTime - poleTime);
+    }
+  }
+  return null;
+}
+
+// Push-lap time lost to each driver's own best against session time, so the
+// fit measures the track rather than the spread between cars
+function trackEvolution(pushLaps: { lap: TimedLap; lost: number }[]): number | null {
+  const dated = pushLaps.filter(({ lap }) => lap.date_start !== null);
+  const start = Math.min(...dated.map(({ lap }) => Date.parse(lap.date_start!)));
+  const fit = linearFit(
+    dated.map(({ lap }) => (Date.parse(lap.date_start!) - start) / 600000),
+    dated.map(({ lost }) => lost)
+  );
+  return fit ? round(fit.slope) : null;
+}
+
+function sectorImprovement(drivers: QualifyingDriverAnalysis[], sector: number): QualifyingData['sector_improvements'] {
+  const ranked = drivers
+    .filter(driver => driver.sector_bests[sector] !== null)
+    .sort((a, b) => a.sector_bests[sector]! - b.sector_bests[sector]!);
+  if (ranked.length === 0) {
+    return [];
+  }
+  const best = ranked[0].sector_bests[sector]!;
+  return [{
+    sector: sector + 1,
+    best_time: best,
+    time_delta: ranked.length > 1 ? round(ranked[1].sector_bests[sector]! - best) : 0,
+    driver_number: ranked[0].driver_number,
+  }];
+}
+
+// Average extra time lost on push laps started within the traffic window of
+// another car crossing the line, compared with push laps in clear air
+function trafficImpact(pushLaps: { lap: TimedLap; lost: number }[], allLaps: LapData[]): number | null {
+  const crossings = allLaps
+    .filter(lap => lap.date_start !== null)
+    .map(lap => ({ driver: lap.driver_number, time: Date.parse(lap.date_start!) }));
+  const inTraffic = ({ lap }: { lap: TimedLap }) => {
+    if (lap.date_start === null) {
+      return false;
+    }
+    const start = Date.parse(lap.date_start);
+    return crossings.some(crossing =>
+      crossing.driver !== lap.driver_number &&
+      start - crossing.time > 0 &&
+      start - crossing.time <= TRAFFIC_WINDOW_SECONDS * 1000
+    );
+  };
+
+  const traffic = mean(pushLaps.filter(inTraffic).map(({ lost }) => lost));
+  const clear = mean(pushLaps.filter(lap => !inTraffic(lap)).map(({ lost }) => lost));
+  return traffic !== undefined && clear !== undefined ? round(traffic - clear) : null;
+}
+
+function sortByDate<T extends { date: string }>(samples: T[]): T[] {
+  return [...samples].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function lapEndDate(lap: LapData): string | undefined {
+  if (!lap.date_start || lap.lap_duration === null) {
+    return undefined;
+  }
+  return new Date(Date.parse(lap.date_start) + lap.lap_duration * 1000).toISOString();
+}
+
+function bestSector(detail: TelemetryDetail, sector: number): number {
+  const times = detail.sector_times
+    .map(sectors => sectors[sector])
+    .filter((time): time is number => time !== null && time > 0);
+  return times.length > 0 ? Math.min(...times) : NaN;
+}
+
+// Most recent numeric gap to the leader at or before `date` ("+1 LAP" gaps are skipped)
+function latestGap(intervals: IntervalData[], date: string): number | undefined {
+  let gap: number | undefined;
+  for (const interval of intervals) {
+    if (interval.date > date) {
+      break;
+    }
+    if (typeof interval.gap_to_leader === 'number') {
+      gap = interval.gap_to_leader;
+    } else if (interval.gap_to_leader === null && interval.interval === null) {
+      // The leader has no gap to itself
+      gap = 0;
+    }
+  }
+  return gap;
+}
+
+export const f1Analysis = F1AnalysisService.getInstance();
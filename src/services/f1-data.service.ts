@@ -2,8 +2,32 @@ import axios, { AxiosRequestConfig } from "axios";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import { openf1Auth } from './openf1-auth.service.js';
 import { openf1Stream, OpenF1Topic, LiveDataHandler } from './openf1-stream.service.js';
+import { entityResolver } from './entity-resolver.service.js';
+import { responseCache } from './response-cache.service.js';
 import { logger } from '../utils/logger.js';
 import { config } from '../config/index.js';
+import { z } from 'zod';
+import {
+  Circuit,
+  circuitSchema,
+  Constructor,
+  constructorSchema,
+  Driver,
+  driverSchema,
+  Paged,
+  Paging,
+  Race,
+  raceSchema,
+  RaceWeekend,
+  WeekendPoints,
+  Season,
+  seasonSchema,
+  Status,
+  statusSchema,
+  StandingsList,
+  standingsListSchema,
+} from '../interfaces/ergast.interface.js';
+import { ErgastPage, mapWithConcurrency, mergeErgastRows, planErgastPages } from '../utils/ergast-paging.js';
 
 // OpenF1 API base URL
 const OPENF1_BASE_URL = config.openf1BaseUrl;
@@ -11,12 +35,6 @@ const OPENF1_BASE_URL = config.openf1BaseUrl;
 // FastF1 API base URL - we'll need to use ergast API as a substitute since FastF1 is Python-only
 const FASTF1_BASE_URL = config.fastf1BaseUrl;
 
-// Simple in-memory cache with TTL
-interface CacheItem<T> {
-  data: T;
-  expiresAt: number;
-}
-
 export interface LiveTimingData {
   date: string;
   session_status: string;
@@ -83,8 +101,9 @@ export interface PitData {
   date: string;
   driver_number: number;
   pit_duration: number | null;
-  stop_timestamp: string;
-  pit_type: string;
+  lap_number?: number;
+  stop_timestamp?: string;
+  pit_type?: string;
 }
 
 export interface TeamRadioData {
@@ -101,47 +120,131 @@ export interface RaceControlData {
   scope: string | null;
   sector: number | null;
   driver_number: number | null;
+  lap_number?: number | null;
 }
 
-// Additional interfaces for specific API responses
-export interface DetailedTelemetryData extends CarData {
-  tyre_compound: string;
-  tyre_life: number;
-  ers_deployed: number;
-  ers_harvested: number;
-  fuel_remaining: number;
-  track_position: number;
-  distance: number;
+// Interface for data from /session_result endpoint
+// Qualifying-style sessions report one duration/gap per segment (Q1, Q2, Q3)
+export interface SessionResultData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
+  position: number | null;
+  number_of_laps: number;
+  dnf: boolean;
+  dns: boolean;
+  dsq: boolean;
+  duration: number | (number | null)[] | null;
+  gap_to_leader: number | string | (number | string | null)[] | null;
 }
 
-export interface SectorAnalysis {
-  driver_number: string;
-  sector_number: number;
-  sector_time: number;
-  personal_best: boolean;
-  session_best: boolean;
+// Interface for data from /laps endpoint
+export interface LapData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
   lap_number: number;
-  compound: string;
-  tyre_age: number;
+  date_start: string | null;
+  lap_duration: number | null;
+  duration_sector_1: number | null;
+  duration_sector_2: number | null;
+  duration_sector_3: number | null;
+  i1_speed: number | null;
+  i2_speed: number | null;
+  st_speed: number | null;
+  is_pit_out_lap: boolean;
+  segments_sector_1?: (number | null)[] | null;
+  segments_sector_2?: (number | null)[] | null;
+  segments_sector_3?: (number | null)[] | null;
 }
 
-export interface TyreStrategyData {
-  driver_number: string;
+// Interface for data from /stints endpoint
+export interface StintData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
   stint_number: number;
-  compound: string;
-  laps_on_tyre: number;
-  average_time: number;
-  degradation: number;
+  lap_start: number | null;
+  lap_end: number | null;
+  compound: string | null;
+  tyre_age_at_start: number | null;
+}
+
+// Interface for data from /intervals endpoint (races only)
+// Gaps are strings such as "+1 LAP" when a car has been lapped
+export interface IntervalData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
+  date: string;
+  gap_to_leader: number | string | null;
+  interval: number | string | null;
+}
+
+// Interface for data from /drivers endpoint (per-session driver entry)
+export interface SessionDriverData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
+  broadcast_name: string;
+  full_name: string;
+  first_name: string | null;
+  last_name: string | null;
+  name_acronym: string;
+  team_name: string | null;
+  team_colour: string | null;
+  headshot_url: string | null;
+  country_code: string | null;
+}
+
+// Interface for data from /meetings endpoint
+export interface MeetingData {
+  meeting_key: number;
+  meeting_name: string;
+  meeting_official_name: string;
+  circuit_key: number;
+  circuit_short_name: string;
+  country_code: string;
+  country_key: number;
+  country_name: string;
+  location: string;
+  date_start: string;
+  gmt_offset: string;
+  year: number;
+}
+
+// Interface for data from /location endpoint (car position on track, ~3.7 Hz)
+export interface LocationData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
+  date: string;
+  x: number;
+  y: number;
+  z: number;
 }
 
+// Interface for data from /starting_grid endpoint
+export interface StartingGridData {
+  meeting_key: number;
+  session_key: number;
+  driver_number: number;
+  position: number;
+  lap_duration: number | null;
+}
+
+// Live MQTT positions and the /position endpoint
 export interface TrackPositionData {
-  driver_number: string;
-  lap_number: number;
+  driver_number: number;
   position: number;
-  gap_to_leader: number;
-  gap_to_ahead: number;
-  sector: number;
-  timestamp: string;
+  meeting_key?: number;
+  session_key?: number;
+  date?: string;
+  lap_number?: number;
+  gap_to_leader?: number;
+  gap_to_ahead?: number;
+  sector?: number;
+  timestamp?: string;
 }
 
 export interface RaceResult {
@@ -223,9 +326,8 @@ export interface SeasonData {
 
 export class F1DataService {
   private static instance: F1DataService;
-  private cache: Map<string, CacheItem<any>> = new Map();
-  private defaultCacheTTL = 5 * 60 * 1000; // 5 minutes in ms
-  private liveCacheTTL = 10 * 1000; // 10 seconds for live data
+  private defaultCacheTTL = config.cacheTTL * 1000;
+  private liveCacheTTL = config.liveCacheTTL * 1000;
   
   // Live data storage (in-memory for now, could be database)
   private liveDataStore: {
@@ -339,30 +441,18 @@ export class F1DataService {
     logger.debug('Updated session info');
   }
 
-  // Cache helper methods
-  private getCachedData<T>(key: string): T | null {
-    if (!this.cache.has(key)) {
-      return null;
-    }
-
-    const cachedItem = this.cache.get(key)!;
-    if (Date.now() > cachedItem.expiresAt) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return cachedItem.data;
+  // Cache helper methods (past seasons and ended sessions are kept
+  // indefinitely by the response cache, whatever the TTL)
+  private getCachedData<T>(key: string): Promise<T | undefined> {
+    return responseCache.get<T>(key);
   }
 
   private setCachedData<T>(
     key: string,
     data: T,
     ttl: number = this.defaultCacheTTL
-  ): void {
-    this.cache.set(key, {
-      data,
-      expiresAt: Date.now() + ttl,
-    });
+  ): Promise<void> {
+    return responseCache.set(key, data, ttl);
   }
 
   private async fetchWithErrorHandling<T>(
@@ -374,8 +464,8 @@ export class F1DataService {
     const cacheKey = url;
 
     if (useCache) {
-      const cachedData = this.getCachedData<T>(cacheKey);
-      if (cachedData) {
+      const cachedData = await this.getCachedData<T>(cacheKey);
+      if (cachedData !== undefined) {
         return cachedData;
       }
     }
@@ -384,7 +474,7 @@ export class F1DataService {
       const response = await axios.get<T>(url);
 
       if (useCache) {
-        this.setCachedData(cacheKey, response.data, cacheTTL);
+        await this.setCachedData(cacheKey, response.data, cacheTTL);
       }
 
       return response.data;
@@ -399,6 +489,95 @@ export class F1DataService {
     }
   }
   
+  /**
+   * Validate and normalise an Ergast payload against the typed domain model
+   */
+  private parseErgast<S extends z.ZodTypeAny>(
+    schema: S,
+    data: unknown,
+    errorMessage: string
+  ): z.output<S> {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      logger.error(errorMessage, { issues: result.error.issues.slice(0, 5) });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `${errorMessage}: unexpected response shape`
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Fetch an OpenF1 endpoint filtered by query parameters
+   * Undefined parameters are skipped; keys are sent verbatim, so a `date>` key
+   * becomes OpenF1's `date>=` filter. 422/404 (no data) resolve to an empty array.
+   */
+  private async fetchOpenF1<T>(
+    endpoint: string,
+    params: Record<string, string | number | undefined>,
+    errorMessage: string,
+    cacheTTL: number = this.defaultCacheTTL
+  ): Promise<T[]> {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    const url = `${OPENF1_BASE_URL}/${endpoint}${query ? `?${query}` : ''}`;
+
+    try {
+      return await this.fetchWithErrorHandling<T[]>(url, errorMessage, true, cacheTTL);
+    } catch (error: any) {
+      if (error.message && (error.message.includes('422') || error.message.includes('404'))) {
+        logger.debug(`No ${endpoint} data available`, { params });
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch every page of an Ergast table (e.g. RaceTable.Races) up to `maxRows` rows
+   * Uses MRData.total from the first page to plan the remaining requests and
+   * merges races, standings lists and laps that were split across pages
+   */
+  private async fetchErgastTable(
+    path: string,
+    table: string,
+    list: string,
+    errorMessage: string,
+    maxRows: number = config.ergastMaxRows
+  ): Promise<{ rows: unknown[]; paging: Paging }> {
+    const pageSize = Math.max(1, Math.min(config.ergastPageSize, maxRows));
+    const fetchPage = ({ offset, limit }: ErgastPage) => this.fetchWithErrorHandling<any>(
+      `${FASTF1_BASE_URL}/${path}.json?limit=${limit}&offset=${offset}`,
+      errorMessage
+    );
+
+    const firstPage = await fetchPage({ offset: 0, limit: pageSize });
+    const total = Number(firstPage?.MRData?.total ?? 0);
+    const plan = planErgastPages(total, pageSize, maxRows);
+    const pages = [
+      firstPage,
+      ...(await mapWithConcurrency(plan.remaining, config.ergastPageConcurrency, fetchPage)),
+    ];
+
+    if (plan.truncated) {
+      logger.warn('Ergast result truncated', { path, total, maxRows });
+    }
+
+    return {
+      rows: mergeErgastRows(pages.flatMap(page => page?.MRData?.[table]?.[list] ?? [])),
+      paging: {
+        total,
+        fetched: plan.fetched,
+        pageSize,
+        pages: pages.length,
+        truncated: plan.truncated,
+      },
+    };
+  }
+
   /**
    * Fetch data with authentication (for endpoints requiring OAuth2)
    */
@@ -411,8 +590,8 @@ export class F1DataService {
     const cacheKey = url;
 
     if (useCache) {
-      const cachedData = this.getCachedData<T>(cacheKey);
-      if (cachedData) {
+      const cachedData = await this.getCachedData<T>(cacheKey);
+      if (cachedData !== undefined) {
         return cachedData;
       }
     }
@@ -431,7 +610,7 @@ export class F1DataService {
       const response = await axios.get<T>(url, axiosConfig);
 
       if (useCache) {
-        this.setCachedData(cacheKey, response.data, cacheTTL);
+        await this.setCachedData(cacheKey, response.data, cacheTTL);
       }
 
       return response.data;
@@ -452,7 +631,7 @@ export class F1DataService {
           const response = await axios.get<T>(url, axiosConfig);
           
           if (useCache) {
-            this.setCachedData(cacheKey, response.data, cacheTTL);
+            await this.setCachedData(cacheKey, response.data, cacheTTL);
           }
           
           return response.data;
@@ -521,14 +700,19 @@ export class F1DataService {
     // If streaming is active and we have live positions, return them
     if (openf1Stream.isActive() && this.liveDataStore.positions.size > 0) {
       logger.debug('Returning live timing data from stream');
-      return Array.from(this.liveDataStore.positions.values()).map(pos => ({
-        date: pos.timestamp || new Date().toISOString(),
+      const positions = Array.from(this.liveDataStore.positions.values());
+      // Ergast driverId where the current season's entry list knows the number
+      const driverIds = await Promise.all(
+        positions.map(pos => entityResolver.driverIdForNumber(pos.driver_number))
+      );
+      return positions.map((pos, i) => ({
+        date: pos.timestamp || pos.date || new Date().toISOString(),
         session_status: this.liveDataStore.sessionInfo?.status || 'unknown',
         driver_number: String(pos.driver_number),
-        driver_id: String(pos.driver_number), // May need mapping
+        driver_id: driverIds[i] ?? String(pos.driver_number),
         lap_time: 0, // Would need to track from lap data
         position: pos.position,
-        lap_number: pos.lap_number,
+        lap_number: pos.lap_number ?? 0,
       }));
     }
     
@@ -691,34 +875,50 @@ export class F1DataService {
   }
 
   // Historic Data Methods (using Ergast API as FastF1 alternative)
-  async getHistoricRaceResults(year: number, round: number): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/${year}/${round}/results.json`,
+  async getHistoricRaceResults(year: number, round: number): Promise<Paged<Race | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/${round}/results`,
+      'RaceTable',
+      'Races',
       "Failed to fetch historic race results"
     );
-    return data.MRData.RaceTable.Races[0];
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse historic race results")[0],
+      paging,
+    };
   }
 
-  async getDriverStandings(year: number): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/${year}/driverStandings.json`,
+  // Standings after `round`, or the latest/final standings when omitted
+  async getDriverStandings(year: number, round?: number): Promise<Paged<StandingsList | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      round ? `${year}/${round}/driverStandings` : `${year}/driverStandings`,
+      'StandingsTable',
+      'StandingsLists',
       "Failed to fetch driver standings"
     );
-    return data.MRData.StandingsTable.StandingsLists[0];
+    return {
+      data: this.parseErgast(z.array(standingsListSchema), rows, "Failed to parse driver standings")[0],
+      paging,
+    };
   }
 
-  async getConstructorStandings(year: number): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/${year}/constructorStandings.json`,
+  async getConstructorStandings(year: number, round?: number): Promise<Paged<StandingsList | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      round ? `${year}/${round}/constructorStandings` : `${year}/constructorStandings`,
+      'StandingsTable',
+      'StandingsLists',
       "Failed to fetch constructor standings"
     );
-    return data.MRData.StandingsTable.StandingsLists[0];
+    return {
+      data: this.parseErgast(z.array(standingsListSchema), rows, "Failed to parse constructor standings")[0],
+      paging,
+    };
   }
 
   // Additional methods for specific data needs
   // Note: Uses Ergast API for reliable driver information without session context
   // For OpenF1 session-specific driver data, use getHistoricalSessions + filter by driver
-  async getDriverInfo(driverId: string): Promise<any> {
+  async getDriverInfo(driverId: string): Promise<Driver | null> {
     // Use Ergast API for comprehensive driver information
     try {
       const data = await this.fetchWithErrorHandling<any>(
@@ -731,23 +931,29 @@ export class F1DataService {
         return null;
       }
       
-      return data.MRData.DriverTable.Drivers[0];
+      return this.parseErgast(driverSchema, data.MRData.DriverTable.Drivers[0], "Failed to parse driver info");
     } catch (error: any) {
       logger.warn('Driver info not found, returning null', { driverId, error: error.message });
       return null;
     }
   }
 
+  // Lap-by-lap timings for one driver, or the whole field when driverId is omitted
   async getLapTimes(
     year: number,
     round: number,
-    driverId: string
-  ): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/${year}/${round}/drivers/${driverId}/laps.json`,
+    driverId?: string
+  ): Promise<Paged<Race | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      driverId ? `${year}/${round}/drivers/${driverId}/laps` : `${year}/${round}/laps`,
+      'RaceTable',
+      'Races',
       "Failed to fetch lap times"
     );
-    return data.MRData.RaceTable.Races[0];
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse lap times")[0],
+      paging,
+    };
   }
 
   // New OpenF1 API methods
@@ -847,6 +1053,98 @@ export class F1DataService {
     }
   }
 
+  async getLaps(
+    sessionKey: string,
+    driverNumber?: string,
+    lapNumber?: number
+  ): Promise<LapData[]> {
+    return this.fetchOpenF1<LapData>(
+      'laps',
+      { session_key: sessionKey, driver_number: driverNumber, lap_number: lapNumber },
+      "Failed to fetch lap data"
+    );
+  }
+
+  async getStints(sessionKey: string, driverNumber?: string): Promise<StintData[]> {
+    return this.fetchOpenF1<StintData>(
+      'stints',
+      { session_key: sessionKey, driver_number: driverNumber },
+      "Failed to fetch stint data"
+    );
+  }
+
+  async getIntervals(sessionKey: string, driverNumber?: string): Promise<IntervalData[]> {
+    return this.fetchOpenF1<IntervalData>(
+      'intervals',
+      { session_key: sessionKey, driver_number: driverNumber },
+      "Failed to fetch interval data",
+      this.liveCacheTTL
+    );
+  }
+
+  async getSessionDrivers(sessionKey: string, driverNumber?: string): Promise<SessionDriverData[]> {
+    return this.fetchOpenF1<SessionDriverData>(
+      'drivers',
+      { session_key: sessionKey, driver_number: driverNumber },
+      "Failed to fetch session drivers"
+    );
+  }
+
+  async getPositions(sessionKey: string, driverNumber?: string): Promise<TrackPositionData[]> {
+    return this.fetchOpenF1<TrackPositionData>(
+      'position',
+      { session_key: sessionKey, driver_number: driverNumber },
+      "Failed to fetch position data",
+      this.liveCacheTTL
+    );
+  }
+
+  async getMeetings(filters?: {
+    year?: number;
+    meeting_key?: string;
+    country_name?: string;
+  }): Promise<MeetingData[]> {
+    return this.fetchOpenF1<MeetingData>(
+      'meetings',
+      { ...filters },
+      "Failed to fetch meetings"
+    );
+  }
+
+  /**
+   * Car coordinates for one driver; narrow with dateFrom/dateTo (ISO timestamps)
+   * since a full session is tens of thousands of samples
+   */
+  async getLocationData(
+    sessionKey: string,
+    driverNumber: string,
+    dateFrom?: string,
+    dateTo?: string
+  ): Promise<LocationData[]> {
+    return this.fetchOpenF1<LocationData>(
+      'location',
+      { session_key: sessionKey, driver_number: driverNumber, 'date>': dateFrom, 'date<': dateTo },
+      "Failed to fetch location data",
+      this.liveCacheTTL
+    );
+  }
+
+  async getSessionResults(sessionKey: string, driverNumber?: string): Promise<SessionResultData[]> {
+    return this.fetchOpenF1<SessionResultData>(
+      'session_result',
+      { session_key: sessionKey, driver_number: driverNumber },
+      "Failed to fetch session results"
+    );
+  }
+
+  async getStartingGrid(sessionKey: string): Promise<StartingGridData[]> {
+    return this.fetchOpenF1<StartingGridData>(
+      'starting_grid',
+      { session_key: sessionKey },
+      "Failed to fetch starting grid"
+    );
+  }
+
   public async getTeamRadio(
     sessionKey: string,
     driverNumber?: string
@@ -896,142 +1194,328 @@ export class F1DataService {
   public async getRaceControlMessages(
     sessionKey: string
   ): Promise<RaceControlData[]> {
-    try {
-      const response = await axios.get(
-        `https://api.openf1.org/v1/race_control?session_key=${sessionKey}`
-      );
-      return response.data;
-    } catch (error: any) {
-      // Return empty array for 422 or 404 (no data available) instead of throwing
-      if (error.response?.status === 422 || error.response?.status === 404) {
-        logger.debug('No race control messages available for session');
-        return [];
-      }
-      logger.error('Failed to fetch race control messages', { error: error.message });
-      throw new Error("Failed to fetch race control messages");
-    }
+    return this.fetchOpenF1<RaceControlData>(
+      'race_control',
+      { session_key: sessionKey },
+      "Failed to fetch race control messages",
+      this.liveCacheTTL
+    );
   }
 
   // New Ergast API methods
 
-  async getRaceCalendar(year: number): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/${year}.json`,
+  async getRaceCalendar(year: number): Promise<Paged<Race[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}`,
+      'RaceTable',
+      'Races',
       "Failed to fetch race calendar"
     );
-    return data.MRData.RaceTable.Races;
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse race calendar"),
+      paging,
+    };
   }
 
-  async getCircuitInfo(circuitId: string): Promise<any> {
+  async getCircuitInfo(circuitId: string): Promise<Circuit | undefined> {
     const data = await this.fetchWithErrorHandling<any>(
       `${FASTF1_BASE_URL}/circuits/${circuitId}.json`,
       "Failed to fetch circuit information"
     );
-    return data.MRData.CircuitTable.Circuits[0];
+    return this.parseErgast(
+      z.array(circuitSchema),
+      data?.MRData?.CircuitTable?.Circuits,
+      "Failed to parse circuit information"
+    )[0];
   }
 
-  async getSeasonList(limit: number = 100): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/seasons.json?limit=${limit}`,
-      "Failed to fetch season list"
+  async getSeasonList(limit?: number): Promise<Paged<Season[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      'seasons',
+      'SeasonTable',
+      'Seasons',
+      "Failed to fetch season list",
+      limit
     );
-    return data.MRData.SeasonTable.Seasons;
+    return {
+      data: this.parseErgast(z.array(seasonSchema), rows, "Failed to parse season list"),
+      paging,
+    };
   }
 
-  async getQualifyingResults(year: number, round: number): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/${year}/${round}/qualifying.json`,
+  async getQualifyingResults(year: number, round: number): Promise<Paged<Race | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/${round}/qualifying`,
+      'RaceTable',
+      'Races',
       "Failed to fetch qualifying results"
     );
-    return data.MRData.RaceTable.Races[0];
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse qualifying results")[0],
+      paging,
+    };
   }
 
-  async getDriverInformation(driverId: string): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/drivers/${driverId}.json`,
-      "Failed to fetch driver information"
+  async getSprintResults(year: number, round: number): Promise<Paged<Race | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/${round}/sprint`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch sprint results"
     );
-    if (!data?.MRData?.DriverTable?.Drivers?.[0]) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        "Driver information not found"
-      );
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse sprint results")[0],
+      paging,
+    };
+  }
+
+  /**
+   * Sprint shootout (2023) / sprint qualifying (2024+) classification
+   * Ergast does not publish these sessions, so the round's calendar date is
+   * matched to the OpenF1 session and its /session_result is returned
+   */
+  async getSprintQualifyingResults(
+    year: number,
+    round: number
+  ): Promise<{ session: HistoricalSessionData | null; results: SessionResultData[] }> {
+    const { data: races } = await this.getRaceCalendar(year);
+    const race = races.find(r => r.round === round);
+    const date = race?.SprintQualifying?.date ?? race?.SprintShootout?.date;
+
+    if (!date) {
+      logger.debug('No sprint qualifying scheduled for round', { year, round });
+      return { session: null, results: [] };
     }
-    return data.MRData.DriverTable.Drivers[0];
+
+    const sessions = await this.getHistoricalSessions({ year });
+    const session = sessions.find(s =>
+      (s.session_name === 'Sprint Qualifying' || s.session_name === 'Sprint Shootout') &&
+      s.date_start.startsWith(date)
+    ) ?? null;
+
+    if (!session) {
+      logger.debug('Sprint qualifying session not found in OpenF1', { year, round, date });
+      return { session: null, results: [] };
+    }
+
+    return {
+      session,
+      results: await this.getSessionResults(String(session.session_key)),
+    };
   }
 
-  async getConstructorInformation(constructorId: string): Promise<any> {
-    const data = await this.fetchWithErrorHandling<any>(
-      `${FASTF1_BASE_URL}/constructors/${constructorId}.json`,
-      "Failed to fetch constructor information"
+  /**
+   * Points scored by every driver across a weekend, combining the grand prix
+   * and (on sprint weekends) the sprint classification
+   */
+  async getRaceWeekendSummary(year: number, round: number): Promise<RaceWeekend | undefined> {
+    const [{ data: race }, { data: sprint }] = await Promise.all([
+      this.getHistoricRaceResults(year, round),
+      this.getSprintResults(year, round),
+    ]);
+
+    const event = race ?? sprint;
+    if (!event) {
+      return undefined;
+    }
+
+    const points = new Map<string, WeekendPoints>();
+    const entryFor = (result: NonNullable<Race['Results']>[number]): WeekendPoints => {
+      const driverId = result.Driver.driverId;
+      let entry = points.get(driverId);
+      if (!entry) {
+        entry = {
+          driverId,
+          name: `${result.Driver.givenName} ${result.Driver.familyName}`,
+          constructor: result.Constructor?.name,
+          racePoints: 0,
+          sprintPoints: 0,
+          totalPoints: 0,
+        };
+        points.set(driverId, entry);
+      }
+      return entry;
+    };
+
+    for (const result of race?.Results ?? []) {
+      const entry = entryFor(result);
+      entry.racePosition = result.position;
+      entry.racePoints = result.points;
+    }
+    for (const result of sprint?.SprintResults ?? []) {
+      const entry = entryFor(result);
+      entry.sprintPosition = result.position;
+      entry.sprintPoints = result.points;
+    }
+
+    const standings = [...points.values()]
+      .map(entry => ({ ...entry, totalPoints: entry.racePoints + entry.sprintPoints }))
+      .sort((a, b) =>
+        b.totalPoints - a.totalPoints ||
+        (a.racePosition ?? Infinity) - (b.racePosition ?? Infinity)
+      );
+
+    return {
+      season: event.season,
+      round: event.round,
+      raceName: event.raceName,
+      sprintWeekend: (sprint?.SprintResults?.length ?? 0) > 0,
+      points: standings,
+    };
+  }
+
+  async getHistoricPitStops(
+    year: number,
+    round: number,
+    driverId?: string
+  ): Promise<Paged<Race | undefined>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      driverId ? `${year}/${round}/drivers/${driverId}/pitstops` : `${year}/${round}/pitstops`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch historic pit stops"
     );
-    return data.MRData.ConstructorTable.Constructors[0];
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse historic pit stops")[0],
+      paging,
+    };
   }
 
-  // Enhanced telemetry methods
-  async getDetailedTelemetry(
-    driverNumber: string,
-    lap: number,
-    sessionKey?: string
-  ): Promise<DetailedTelemetryData[]> {
-    const url = `${OPENF1_BASE_URL}/telemetry?driver_number=${driverNumber}${
-      sessionKey ? `&session_key=${sessionKey}` : ""
-    }${lap ? `&lap=${lap}` : ""}`;
-    return this.fetchWithErrorHandling<DetailedTelemetryData[]>(
-      url,
-      "Failed to fetch telemetry data",
-      true,
-      this.liveCacheTTL
+  // Count of each finishing status ("Finished", "+1 Lap", "Engine", ...) for a season or round
+  async getFinishingStatus(year: number, round?: number): Promise<Paged<Status[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      round ? `${year}/${round}/status` : `${year}/status`,
+      'StatusTable',
+      'Status',
+      "Failed to fetch finishing status"
     );
+    return {
+      data: this.parseErgast(z.array(statusSchema), rows, "Failed to parse finishing status"),
+      paging,
+    };
   }
 
-  async getSectorAnalysis(
-    sessionKey: string,
-    sectorNumber?: number
-  ): Promise<SectorAnalysis[]> {
-    const url = `${OPENF1_BASE_URL}/sector_times?session_key=${sessionKey}${
-      sectorNumber ? `&sector=${sectorNumber}` : ""
-    }`;
-    return this.fetchWithErrorHandling<SectorAnalysis[]>(
-      url,
-      "Failed to fetch sector analysis",
-      true,
-      this.liveCacheTTL
+  // Every grand prix result of a season, one Race per round
+  async getSeasonResults(year: number): Promise<Paged<Race[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/results`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch season results"
     );
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse season results"),
+      paging,
+    };
   }
 
-  async getTyreStrategy(
-    sessionKey: string,
-    driverNumber?: string
-  ): Promise<TyreStrategyData[]> {
-    const url = `${OPENF1_BASE_URL}/tyre_stints?session_key=${sessionKey}${
-      driverNumber ? `&driver_number=${driverNumber}` : ""
-    }`;
-    return this.fetchWithErrorHandling<TyreStrategyData[]>(
-      url,
-      "Failed to fetch tyre strategy data",
-      true,
-      this.defaultCacheTTL
+  async getSeasonSprintResults(year: number): Promise<Paged<Race[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/sprint`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch season sprint results"
     );
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse season sprint results"),
+      paging,
+    };
   }
 
-  async getTrackPositions(
-    sessionKey: string,
-    lap?: number
-  ): Promise<TrackPositionData[]> {
-    const url = `${OPENF1_BASE_URL}/track_positions?session_key=${sessionKey}${
-      lap ? `&lap=${lap}` : ""
-    }`;
-    return this.fetchWithErrorHandling<TrackPositionData[]>(
-      url,
-      "Failed to fetch track position data",
-      true,
-      this.liveCacheTTL
+  async getSeasonQualifyingResults(year: number): Promise<Paged<Race[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/qualifying`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch season qualifying results"
+    );
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse season qualifying results"),
+      paging,
+    };
+  }
+
+  async getDriverSeasonResults(year: number, driverId: string): Promise<Paged<Race[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/drivers/${driverId}/results`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch driver season results"
+    );
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse driver season results"),
+      paging,
+    };
+  }
+
+  async getConstructorSeasonResults(year: number, constructorId: string): Promise<Paged<Race[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/constructors/${constructorId}/results`,
+      'RaceTable',
+      'Races',
+      "Failed to fetch constructor season results"
+    );
+    return {
+      data: this.parseErgast(z.array(raceSchema), rows, "Failed to parse constructor season results"),
+      paging,
+    };
+  }
+
+  async getSeasonDrivers(year: number): Promise<Paged<Driver[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/drivers`,
+      'DriverTable',
+      'Drivers',
+      "Failed to fetch season drivers"
+    );
+    return {
+      data: this.parseErgast(z.array(driverSchema), rows, "Failed to parse season drivers"),
+      paging,
+    };
+  }
+
+  async getSeasonConstructors(year: number): Promise<Paged<Constructor[]>> {
+    const { rows, paging } = await this.fetchErgastTable(
+      `${year}/constructors`,
+      'ConstructorTable',
+      'Constructors',
+      "Failed to fetch season constructors"
+    );
+    return {
+      data: this.parseErgast(z.array(constructorSchema), rows, "Failed to parse season constructors"),
+      paging,
+    };
+  }
+
+  async getDriverInformation(driverId: string): Promise<Driver> {
+    const data = await this.fetchWithErrorHandling<any>(
+      `${FASTF1_BASE_URL}/drivers/${driverId}.json`,
+      "Failed to fetch driver information"
+    );
+    if (!data?.MRData?.DriverTable?.Drivers?.[0]) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        "Driver information not found"
+      );
+    }
+    return this.parseErgast(driverSchema, data.MRData.DriverTable.Drivers[0], "Failed to parse driver information");
+  }
+
+  async getConstructorInformation(constructorId: string): Promise<Constructor | undefined> {
+    const data = await this.fetchWithErrorHandling<any>(
+      `${FASTF1_BASE_URL}/constructors/${constructorId}.json`,
+      "Failed to fetch constructor information"
     );
+    return this.parseErgast(
+      z.array(constructorSchema),
+      data?.MRData?.ConstructorTable?.Constructors,
+      "Failed to parse constructor information"
+    )[0];
   }
 
   // Method to clear cache
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await responseCache.clear();
+    entityResolver.clear();
   }
 }
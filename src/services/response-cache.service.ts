@@ -0,0 +1,142 @@
+import { CacheClassifier } from '../storage/cache-classifier.js';
+import { FileCacheBackend } from '../storage/file-cache-backend.js';
+import { MemoryCacheBackend } from '../storage/memory-cache-backend.js';
+import { RedisCacheBackend } from '../storage/redis-cache-backend.js';
+import { getRedisClient } from '../storage/redis-client.js';
+import { CacheBackend, CacheClass, CacheStats } from '../storage/cache-types.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { metrics } from '../utils/metrics.js';
+
+/**
+ * Response Cache
+ *
+ * Caches upstream API responses by URL in two tiers: an in-process memory
+ * tier that honours each caller's TTL, and an optional persistent backend
+ * that keeps immutable responses indefinitely so past seasons and ended
+ * sessions survive restarts. Redis (REDIS_ENABLED) is shared by every replica
+ * and holds volatile responses too; otherwise CACHE_BACKEND=file keeps
+ * immutable responses on local disk.
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private memory = new MemoryCacheBackend();
+  private persistent: CacheBackend | undefined;
+  private classifier = new CacheClassifier(config.fastf1BaseUrl, config.openf1BaseUrl);
+  private hits = { memory: 0, persistent: 0 };
+  private counts: CacheStats['by_class'] = {
+    immutable: { hits: 0, misses: 0, writes: 0 },
+    volatile: { hits: 0, misses: 0, writes: 0 },
+  };
+
+  private constructor() {
+    const redis = getRedisClient();
+    if (redis) {
+      this.persistent = new RedisCacheBackend(redis);
+    } else if (config.cacheBackend === 'file') {
+      this.persistent = new FileCacheBackend(config.cacheDir);
+    }
+    logger.info('Response cache initialized', {
+      enabled: config.cacheEnabled,
+      backend: this.persistent?.name ?? this.memory.name,
+    });
+  }
+
+  public static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    if (!config.cacheEnabled) {
+      return undefined;
+    }
+    const cacheClass = this.classifier.classify(key);
+
+    const cached = await this.memory.get<T>(key);
+    if (cached) {
+      this.recordHit('memory', cacheClass);
+      this.classifier.observe(key, cached.data);
+      return cached.data;
+    }
+
+    const stored = await this.persistent?.get<T>(key).catch(error => {
+      logger.warn('Persistent cache read failed', { key, error: error.message });
+      return undefined;
+    });
+    if (stored) {
+      this.recordHit('persistent', cacheClass);
+      this.classifier.observe(key, stored.data);
+      await this.memory.set(key, { ...stored, expiresAt: this.memoryExpiry(stored.expiresAt) });
+      return stored.data;
+    }
+
+    this.counts[cacheClass].misses++;
+    metrics.incrementCounter('cache_misses_total', { class: cacheClass });
+    return undefined;
+  }
+
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    if (!config.cacheEnabled) {
+      return;
+    }
+    this.classifier.observe(key, data);
+    const cacheClass = this.classifier.classify(key);
+    const now = Date.now();
+    this.counts[cacheClass].writes++;
+
+    await this.memory.set(key, { data, storedAt: now, expiresAt: now + ttl });
+    if (this.persistent && (cacheClass === 'immutable' || this.persistent.storesVolatile)) {
+      // Persisting is best effort: a full disk must not fail the request
+      await this.persistent
+        .set(key, { data, storedAt: now, expiresAt: cacheClass === 'immutable' ? null : now + ttl })
+        .catch(error => logger.warn('Persistent cache write failed', { key, error: error.message }));
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.memory.clear();
+    await this.persistent?.clear();
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const memory = await this.memory.size();
+    const persistent = await this.persistent?.size().catch(error => {
+      logger.warn('Persistent cache size unavailable', { error: error.message });
+      return undefined;
+    });
+    const hits = this.hits.memory + this.hits.persistent;
+    const misses = this.counts.immutable.misses + this.counts.volatile.misses;
+    return {
+      enabled: config.cacheEnabled,
+      backend: this.persistent?.name ?? this.memory.name,
+      hits: { ...this.hits },
+      misses,
+      hit_rate: hits + misses > 0 ? Math.round(hits / (hits + misses) * 1000) / 1000 : null,
+      by_class: {
+        immutable: { ...this.counts.immutable },
+        volatile: { ...this.counts.volatile },
+      },
+      memory_entries: memory.entries,
+      persistent_entries: persistent?.entries ?? null,
+      persistent_bytes: persistent?.bytes ?? null,
+      ended_sessions: this.classifier.endedSessions,
+    };
+  }
+
+  private recordHit(tier: 'memory' | 'persistent', cacheClass: CacheClass): void {
+    this.hits[tier]++;
+    this.counts[cacheClass].hits++;
+    metrics.incrementCounter('cache_hits_total', { tier, class: cacheClass });
+  }
+
+  // Entries promoted from the persistent tier stay in memory for the default TTL
+  private memoryExpiry(expiresAt: number | null): number {
+    const ttlEnd = Date.now() + config.cacheTTL * 1000;
+    return expiresAt === null ? ttlEnd : Math.min(expiresAt, ttlEnd);
+  }
+}
+
+export const responseCache = ResponseCache.getInstance();
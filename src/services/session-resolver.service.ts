@@ -0,0 +1,132 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { F1DataService, HistoricalSessionData, MeetingData } from './f1-data.service.js';
+import { entityResolver, findMeetingForRace } from './entity-resolver.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A session described in human terms: a season, the event (by round or by
+ * name/country/circuit) and the session within the weekend
+ */
+export interface SessionQuery {
+  year: number;
+  round?: number;
+  event?: string;
+  session?: string;
+}
+
+export interface ResolvedSession {
+  session: HistoricalSessionData;
+  meeting: MeetingData;
+}
+
+// OpenF1 session_name values for common shorthands; the sprint qualifying
+// session was called "Sprint Shootout" in 2023
+const SESSION_NAMES: Record<string, string[]> = {
+  race: ['Race'],
+  r: ['Race'],
+  grand_prix: ['Race'],
+  qualifying: ['Qualifying'],
+  quali: ['Qualifying'],
+  q: ['Qualifying'],
+  sprint: ['Sprint'],
+  sprint_race: ['Sprint'],
+  sprint_qualifying: ['Sprint Qualifying', 'Sprint Shootout'],
+  sprint_shootout: ['Sprint Qualifying', 'Sprint Shootout'],
+  sq: ['Sprint Qualifying', 'Sprint Shootout'],
+  fp1: ['Practice 1'],
+  p1: ['Practice 1'],
+  practice_1: ['Practice 1'],
+  fp2: ['Practice 2'],
+  p2: ['Practice 2'],
+  practice_2: ['Practice 2'],
+  fp3: ['Practice 3'],
+  p3: ['Practice 3'],
+  practice_3: ['Practice 3'],
+};
+
+export function sessionNamesFor(session: string): string[] {
+  const key = session.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return SESSION_NAMES[key] ?? [session.trim()];
+}
+
+/**
+ * Session Resolver Service
+ *
+ * Turns {year, round | event, session} into the OpenF1 session_key and
+ * meeting_key. Rounds are mapped through the Ergast calendar date; event
+ * names, countries and circuits go through the entity resolver.
+ */
+export class SessionResolver {
+  private static instance: SessionResolver;
+
+  private constructor() {}
+
+  public static getInstance(): SessionResolver {
+    if (!SessionResolver.instance) {
+      SessionResolver.instance = new SessionResolver();
+    }
+    return SessionResolver.instance;
+  }
+
+  private get f1Service(): F1DataService {
+    return F1DataService.getInstance();
+  }
+
+  async resolveSession(query: SessionQuery): Promise<ResolvedSession> {
+    const { year, round, event, session = 'Race' } = query;
+    const meeting = await this.resolveMeeting(year, round, event);
+
+    const names = sessionNamesFor(session).map(name => name.toLowerCase());
+    const sessions = (await this.f1Service.getHistoricalSessions({ year }))
+      .filter(candidate => candidate.meeting_key === meeting.meeting_key);
+    const match = sessions.find(candidate => names.includes(candidate.session_name.toLowerCase()));
+
+    if (!match) {
+      const available = sessions.map(candidate => candidate.session_name).join(', ') || 'none';
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No "${session}" session at the ${year} ${meeting.meeting_name}. Available sessions: ${available}`
+      );
+    }
+
+    logger.debug('Resolved session', { query, session_key: match.session_key });
+    return { session: match, meeting };
+  }
+
+  private async resolveMeeting(year: number, round?: number, event?: string): Promise<MeetingData> {
+    if (year < 2023) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `OpenF1 sessions are only available from 2023 onwards (requested ${year})`
+      );
+    }
+
+    const meetings = await this.f1Service.getMeetings({ year });
+    let meeting: MeetingData | undefined;
+
+    if (round !== undefined) {
+      const { data: races } = await this.f1Service.getRaceCalendar(year);
+      const race = races.find(candidate => candidate.round === round);
+      if (!race) {
+        throw new McpError(ErrorCode.InvalidParams, `Round ${round} is not on the ${year} calendar`);
+      }
+      meeting = findMeetingForRace(meetings, race.date);
+    } else if (event) {
+      const [match] = await entityResolver.resolve(event, { type: 'circuit', year });
+      const meetingKey = match?.entity.type === 'circuit' ? match.entity.meetingKey : undefined;
+      meeting = meetings.find(candidate => candidate.meeting_key === meetingKey);
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, "Provide either a round or an event name to identify the meeting");
+    }
+
+    if (!meeting) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No OpenF1 meeting found for ${year} ${round !== undefined ? `round ${round}` : `"${event}"`}`
+      );
+    }
+    return meeting;
+  }
+}
+
+export const sessionResolver = SessionResolver.getInstance();
@@ -0,0 +1,877 @@
+import pg from 'pg';
+import { z } from 'zod';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  F1DataService,
+  HistoricalSessionData,
+  LapData,
+  MeetingData,
+  PitData,
+  RaceControlData,
+  SessionDriverData,
+  StintData,
+  WeatherData,
+} from './f1-data.service.js';
+import { findMeetingForRace } from './entity-resolver.service.js';
+import { ResolvedSession, SessionQuery, sessionNamesFor } from './session-resolver.service.js';
+import { getPostgresPool, withTransaction } from '../storage/postgres-client.js';
+import {
+  IngestionReport,
+  IngestionSource,
+  SessionDataset,
+  WarehouseStatus,
+} from '../storage/warehouse-types.js';
+import { Constructor, Driver, Race, raceSchema, Result } from '../interfaces/ergast.interface.js';
+import { logger } from '../utils/logger.js';
+
+// OpenF1 publishes sessions from 2023 onwards
+export const FIRST_OPENF1_SEASON = 2023;
+
+// Rows per multi-row INSERT, well under Postgres' 65535 bind parameter limit
+const INSERT_BATCH = 500;
+
+const WAREHOUSE_TABLES = [
+  'seasons', 'circuits', 'races', 'drivers', 'constructors', 'results', 'qualifying_results',
+  'meetings', 'sessions', 'session_drivers', 'laps', 'stints', 'pit_stops', 'weather', 'race_control',
+];
+
+// Child tables replaced wholesale each time a session is ingested
+const SESSION_TABLES = ['session_drivers', 'laps', 'stints', 'pit_stops', 'weather', 'race_control'];
+
+const SESSION_DATASETS: SessionDataset[] = ['drivers', 'laps', 'stints', 'pit_stops', 'weather', 'race_control'];
+
+export type ResultSession = 'race' | 'sprint' | 'qualifying';
+
+export interface StoredSessionData {
+  drivers?: SessionDriverData[];
+  laps?: LapData[];
+  stints?: StintData[];
+  pit_stops?: PitData[];
+  weather?: WeatherData[];
+  race_control?: RaceControlData[];
+}
+
+interface SessionPayload {
+  drivers: SessionDriverData[];
+  laps: LapData[];
+  stints: StintData[];
+  pitStops: PitData[];
+  weather: WeatherData[];
+  raceControl: RaceControlData[];
+}
+
+type RowCounts = Record<string, number>;
+
+/**
+ * Insert rows in batches, or upsert them on `conflictKey` when given
+ * Plain inserts skip duplicates, since upstream occasionally repeats a sample
+ */
+async function writeRows(
+  client: pg.PoolClient,
+  table: string,
+  columns: string[],
+  rows: unknown[][],
+  conflictKey?: string[]
+): Promise<number> {
+  const updates = columns.filter(column => conflictKey && !conflictKey.includes(column));
+  const onConflict = conflictKey && updates.length > 0
+    ? `ON CONFLICT (${conflictKey.join(', ')}) DO UPDATE SET ${updates.map(column => `${column} = EXCLUDED.${column}`).join(', ')}`
+    : 'ON CONFLICT DO NOTHING';
+  let written = 0;
+  for (let start = 0; start < rows.length; start += INSERT_BATCH) {
+    const batch = rows.slice(start, start + INSERT_BATCH);
+    const values = batch.map((row, index) =>
+      `(${row.map((_, column) => `$${index * columns.length + column + 1}`).join(', ')})`
+    );
+    const result = await client.query(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')} ${onConflict}`,
+      batch.flat()
+    );
+    written += result.rowCount ?? 0;
+  }
+  return written;
+}
+
+function addCounts(total: RowCounts, counts: RowCounts): void {
+  for (const [table, rows] of Object.entries(counts)) {
+    total[table] = (total[table] ?? 0) + rows;
+  }
+}
+
+function iso(value: Date | null): string | null {
+  return value ? value.toISOString() : null;
+}
+
+function byRound(races: Race[]): Map<number, Race> {
+  return new Map(races.map(race => [race.round, race]));
+}
+
+/**
+ * Warehouse Service
+ *
+ * Ingests Ergast seasons (calendar, race, sprint and qualifying results) and
+ * OpenF1 sessions (drivers, laps, stints, pit stops, weather and race
+ * control) into Postgres, and reads them back in the same shapes the
+ * upstream tools return. Each round and each session is written in its own
+ * transaction and replaced wholesale, so re-ingesting is safe and a failure
+ * only loses that unit.
+ */
+export class WarehouseService {
+  private static instance: WarehouseService;
+
+  private constructor() {}
+
+  public static getInstance(): WarehouseService {
+    if (!WarehouseService.instance) {
+      WarehouseService.instance = new WarehouseService();
+    }
+    return WarehouseService.instance;
+  }
+
+  private get f1Service(): F1DataService {
+    return F1DataService.getInstance();
+  }
+
+  async ingestSeason(
+    year: number,
+    options: { round?: number; sources?: IngestionSource[] } = {}
+  ): Promise<IngestionReport> {
+    const started = Date.now();
+    const sources = options.sources ?? (year >= FIRST_OPENF1_SEASON ? ['ergast', 'openf1'] : ['ergast']);
+    if (sources.includes('openf1') && year < FIRST_OPENF1_SEASON) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `OpenF1 sessions are only available from ${FIRST_OPENF1_SEASON} onwards (requested ${year}); ingest Ergast only`
+      );
+    }
+    // Fail before any upstream calls when the warehouse is unavailable
+    await getPostgresPool();
+
+    const { data: calendar } = await this.f1Service.getRaceCalendar(year);
+    const races = options.round !== undefined
+      ? calendar.filter(race => race.round === options.round)
+      : calendar;
+    if (races.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        options.round !== undefined
+          ? `Round ${options.round} is not on the ${year} calendar`
+          : `No races found for the ${year} season`
+      );
+    }
+
+    const report: IngestionReport = {
+      season: year,
+      round: options.round ?? null,
+      sources,
+      rounds: 0,
+      sessions: 0,
+      rows: {},
+      failures: [],
+      duration_ms: 0,
+    };
+
+    const calendarRows: RowCounts = {};
+    await withTransaction(client => this.writeCalendar(client, year, calendar, calendarRows));
+    addCounts(report.rows, calendarRows);
+
+    if (sources.includes('ergast')) {
+      await this.ingestErgast(year, races, options.round, report);
+    }
+    if (sources.includes('openf1')) {
+      await this.ingestOpenF1(year, races, report);
+    }
+
+    report.duration_ms = Date.now() - started;
+    logger.info('Warehouse ingestion finished', {
+      year,
+      round: options.round,
+      rounds: report.rounds,
+      sessions: report.sessions,
+      failures: report.failures.length,
+      duration_ms: report.duration_ms,
+    });
+    return report;
+  }
+
+  private async ingestErgast(year: number, races: Race[], round: number | undefined, report: IngestionReport): Promise<void> {
+    const [results, sprints, qualifying] = round !== undefined
+      ? await Promise.all([
+          this.f1Service.getHistoricRaceResults(year, round),
+          this.f1Service.getSprintResults(year, round),
+          this.f1Service.getQualifyingResults(year, round),
+        ].map(request => request.then(({ data }) => (data ? [data] : []))))
+      : await Promise.all([
+          this.f1Service.getSeasonResults(year),
+          this.f1Service.getSeasonSprintResults(year),
+          this.f1Service.getSeasonQualifyingResults(year),
+        ].map(request => request.then(({ data, paging }) => {
+          if (paging.truncated) {
+            logger.warn('Ergast season results truncated; raise ERGAST_MAX_ROWS', { year, paging });
+          }
+          return data;
+        })));
+
+    const raceResults = byRound(results);
+    const sprintResults = byRound(sprints);
+    const qualifyingResults = byRound(qualifying);
+
+    for (const race of races) {
+      const weekend = {
+        race: raceResults.get(race.round),
+        sprint: sprintResults.get(race.round),
+        qualifying: qualifyingResults.get(race.round),
+      };
+      // Rounds that have not been run yet only exist on the calendar
+      if (!weekend.race && !weekend.sprint && !weekend.qualifying) {
+        continue;
+      }
+      const counts: RowCounts = {};
+      try {
+        await withTransaction(client => this.writeRound(client, year, race.round, weekend, counts));
+        addCounts(report.rows, counts);
+        report.rounds++;
+      } catch (error: any) {
+        logger.warn('Warehouse round ingestion failed', { year, round: race.round, error: error.message });
+        report.failures.push({ scope: `${year}/${race.round}`, error: error.message });
+      }
+    }
+  }
+
+  private async ingestOpenF1(year: number, races: Race[], report: IngestionReport): Promise<void> {
+    const meetings = await this.f1Service.getMeetings({ year });
+    const sessions = await this.f1Service.getHistoricalSessions({ year });
+
+    for (const race of races) {
+      // Testing and other meetings without a calendar round are skipped
+      const meeting = findMeetingForRace(meetings, race.date);
+      if (!meeting) {
+        continue;
+      }
+      await withTransaction(client => this.writeMeeting(client, meeting, race));
+
+      const ended = sessions.filter(session =>
+        session.meeting_key === meeting.meeting_key && Date.parse(session.date_end) < Date.now()
+      );
+      for (const session of ended) {
+        const counts: RowCounts = {};
+        try {
+          const payload = await this.fetchSession(String(session.session_key));
+          await withTransaction(client => this.writeSession(client, year, session, payload, counts));
+          addCounts(report.rows, counts);
+          report.sessions++;
+        } catch (error: any) {
+          logger.warn('Warehouse session ingestion failed', { session_key: session.session_key, error: error.message });
+          report.failures.push({ scope: `session ${session.session_key}`, error: error.message });
+        }
+      }
+    }
+  }
+
+  // Requests go out one at a time to stay inside OpenF1's rate limits
+  private async fetchSession(sessionKey: string): Promise<SessionPayload> {
+    return {
+      drivers: await this.f1Service.getSessionDrivers(sessionKey),
+      laps: await this.f1Service.getLaps(sessionKey),
+      stints: await this.f1Service.getStints(sessionKey),
+      pitStops: await this.f1Service.getPitStopData(sessionKey),
+      weather: await this.f1Service.getWeatherData(sessionKey),
+      raceControl: await this.f1Service.getRaceControlMessages(sessionKey),
+    };
+  }
+
+  private async writeCalendar(client: pg.PoolClient, year: number, calendar: Race[], counts: RowCounts): Promise<void> {
+    counts.seasons = await writeRows(client, 'seasons', ['year'], [[year]], ['year']);
+
+    const circuits = new Map(calendar.map(race => [race.Circuit.circuitId, race.Circuit]));
+    counts.circuits = await writeRows(
+      client,
+      'circuits',
+      ['circuit_id', 'name', 'locality', 'country', 'lat', 'lng'],
+      [...circuits.values()].map(circuit => [
+        circuit.circuitId,
+        circuit.circuitName,
+        circuit.Location?.locality ?? null,
+        circuit.Location?.country ?? null,
+        circuit.Location?.lat ?? null,
+        circuit.Location?.long ?? null,
+      ]),
+      ['circuit_id']
+    );
+
+    counts.races = await writeRows(
+      client,
+      'races',
+      ['season', 'round', 'name', 'circuit_id', 'date', 'time', 'sprint_date'],
+      calendar.map(race => [
+        year,
+        race.round,
+        race.raceName,
+        race.Circuit.circuitId,
+        race.date,
+        race.time ?? null,
+        race.Sprint?.date ?? null,
+      ]),
+      ['season', 'round']
+    );
+  }
+
+  private async writeRound(
+    client: pg.PoolClient,
+    year: number,
+    round: number,
+    weekend: { race?: Race; sprint?: Race; qualifying?: Race },
+    counts: RowCounts
+  ): Promise<void> {
+    const entries = [
+      ...(weekend.race?.Results ?? []),
+      ...(weekend.sprint?.SprintResults ?? []),
+      ...(weekend.qualifying?.QualifyingResults ?? []),
+    ];
+    const drivers = new Map<string, Driver>(entries.map(entry => [entry.Driver.driverId, entry.Driver]));
+    const constructors = new Map<string, Constructor>();
+    for (const entry of entries) {
+      if (entry.Constructor) {
+        constructors.set(entry.Constructor.constructorId, entry.Constructor);
+      }
+    }
+
+    counts.drivers = await writeRows(
+      client,
+      'drivers',
+      ['driver_id', 'code', 'permanent_number', 'given_name', 'family_name', 'date_of_birth', 'nationality'],
+      [...drivers.values()].map(driver => [
+        driver.driverId,
+        driver.code ?? null,
+        driver.permanentNumber ?? null,
+        driver.givenName,
+        driver.familyName,
+        driver.dateOfBirth ?? null,
+        driver.nationality ?? null,
+      ]),
+      ['driver_id']
+    );
+    counts.constructors = await writeRows(
+      client,
+      'constructors',
+      ['constructor_id', 'name', 'nationality'],
+      [...constructors.values()].map(constructor => [
+        constructor.constructorId,
+        constructor.name,
+        constructor.nationality ?? null,
+      ]),
+      ['constructor_id']
+    );
+
+    await client.query('DELETE FROM results WHERE season = $1 AND round = $2', [year, round]);
+    await client.query('DELETE FROM qualifying_results WHERE season = $1 AND round = $2', [year, round]);
+
+    // `ordinal` keeps Ergast's order, which tells apart drivers classified at the same position
+    const resultRow = (session: 'race' | 'sprint', result: Result, ordinal: number): unknown[] => [
+      year,
+      round,
+      session,
+      ordinal + 1,
+      result.position,
+      result.positionText,
+      result.Driver.driverId,
+      result.Constructor?.constructorId ?? null,
+      result.number ?? null,
+      result.grid ?? null,
+      result.points,
+      result.laps ?? null,
+      result.status,
+      result.Time?.time ?? null,
+      result.Time?.millis ?? null,
+      result.FastestLap?.lap ?? null,
+      result.FastestLap?.rank ?? null,
+      result.FastestLap?.Time?.time ?? null,
+    ];
+    counts.results = await writeRows(
+      client,
+      'results',
+      [
+        'season', 'round', 'session', 'ordinal', 'position', 'position_text', 'driver_id', 'constructor_id', 'car_number',
+        'grid', 'points', 'laps', 'status', 'time', 'time_millis', 'fastest_lap', 'fastest_lap_rank', 'fastest_lap_time',
+      ],
+      [
+        ...(weekend.race?.Results ?? []).map((result, ordinal) => resultRow('race', result, ordinal)),
+        ...(weekend.sprint?.SprintResults ?? []).map((result, ordinal) => resultRow('sprint', result, ordinal)),
+      ]
+    );
+
+    counts.qualifying_results = await writeRows(
+      client,
+      'qualifying_results',
+      ['season', 'round', 'ordinal', 'position', 'driver_id', 'constructor_id', 'car_number', 'q1', 'q2', 'q3'],
+      (weekend.qualifying?.QualifyingResults ?? []).map((result, ordinal) => [
+        year,
+        round,
+        ordinal + 1,
+        result.position,
+        result.Driver.driverId,
+        result.Constructor?.constructorId ?? null,
+        result.number ?? null,
+        result.Q1?.time ?? null,
+        result.Q2?.time ?? null,
+        result.Q3?.time ?? null,
+      ])
+    );
+
+    await this.recordIngestion(client, 'ergast', `${year}/${round}`, year, counts);
+  }
+
+  private async writeMeeting(client: pg.PoolClient, meeting: MeetingData, race: Race): Promise<void> {
+    await writeRows(
+      client,
+      'meetings',
+      [
+        'meeting_key', 'year', 'season', 'round', 'meeting_name', 'meeting_official_name', 'circuit_key',
+        'circuit_short_name', 'country_code', 'country_key', 'country_name', 'location', 'date_start', 'gmt_offset',
+      ],
+      [[
+        meeting.meeting_key,
+        meeting.year,
+        race.season,
+        race.round,
+        meeting.meeting_name,
+        meeting.meeting_official_name,
+        meeting.circuit_key,
+        meeting.circuit_short_name,
+        meeting.country_code,
+        meeting.country_key,
+        meeting.country_name,
+        meeting.location,
+        meeting.date_start,
+        meeting.gmt_offset,
+      ]],
+      ['meeting_key']
+    );
+  }
+
+  private async writeSession(
+    client: pg.PoolClient,
+    year: number,
+    session: HistoricalSessionData,
+    payload: SessionPayload,
+    counts: RowCounts
+  ): Promise<void> {
+    const key = session.session_key;
+    counts.sessions = await writeRows(
+      client,
+      'sessions',
+      ['session_key', 'meeting_key', 'session_name', 'session_type', 'date_start', 'date_end'],
+      [[key, session.meeting_key, session.session_name, session.session_type, session.date_start, session.date_end]],
+      ['session_key']
+    );
+    for (const table of SESSION_TABLES) {
+      await client.query(`DELETE FROM ${table} WHERE session_key = $1`, [key]);
+    }
+
+    counts.session_drivers = await writeRows(
+      client,
+      'session_drivers',
+      [
+        'session_key', 'driver_number', 'broadcast_name', 'full_name', 'first_name', 'last_name', 'name_acronym',
+        'team_name', 'team_colour', 'headshot_url', 'country_code',
+      ],
+      payload.drivers.map(driver => [
+        key,
+        driver.driver_number,
+        driver.broadcast_name,
+        driver.full_name,
+        driver.first_name,
+        driver.last_name,
+        driver.name_acronym,
+        driver.team_name,
+        driver.team_colour,
+        driver.headshot_url,
+        driver.country_code,
+      ])
+    );
+    counts.laps = await writeRows(
+      client,
+      'laps',
+      [
+        'session_key', 'driver_number', 'lap_number', 'date_start', 'lap_duration', 'duration_sector_1',
+        'duration_sector_2', 'duration_sector_3', 'i1_speed', 'i2_speed', 'st_speed', 'is_pit_out_lap',
+      ],
+      payload.laps.map(lap => [
+        key,
+        lap.driver_number,
+        lap.lap_number,
+        lap.date_start,
+        lap.lap_duration,
+        lap.duration_sector_1,
+        lap.duration_sector_2,
+        lap.duration_sector_3,
+        lap.i1_speed,
+        lap.i2_speed,
+        lap.st_speed,
+        lap.is_pit_out_lap ?? false,
+      ])
+    );
+    counts.stints = await writeRows(
+      client,
+      'stints',
+      ['session_key', 'driver_number', 'stint_number', 'compound', 'lap_start', 'lap_end', 'tyre_age_at_start'],
+      payload.stints.map(stint => [
+        key,
+        stint.driver_number,
+        stint.stint_number,
+        stint.compound,
+        stint.lap_start,
+        stint.lap_end,
+        stint.tyre_age_at_start,
+      ])
+    );
+    counts.pit_stops = await writeRows(
+      client,
+      'pit_stops',
+      ['session_key', 'driver_number', 'date', 'lap_number', 'pit_duration'],
+      payload.pitStops.map(stop => [key, stop.driver_number, stop.date, stop.lap_number ?? null, stop.pit_duration])
+    );
+    counts.weather = await writeRows(
+      client,
+      'weather',
+      [
+        'session_key', 'date', 'air_temperature', 'track_temperature', 'humidity', 'pressure', 'rainfall',
+        'wind_direction', 'wind_speed',
+      ],
+      payload.weather.map(sample => [
+        key,
+        sample.date,
+        sample.air_temperature,
+        sample.track_temperature,
+        sample.humidity,
+        sample.pressure,
+        sample.rainfall,
+        sample.wind_direction,
+        sample.wind_speed,
+      ])
+    );
+    counts.race_control = await writeRows(
+      client,
+      'race_control',
+      ['session_key', 'date', 'lap_number', 'category', 'flag', 'scope', 'sector', 'driver_number', 'message'],
+      payload.raceControl.map(message => [
+        key,
+        message.date,
+        message.lap_number ?? null,
+        message.category,
+        message.flag,
+        message.scope,
+        message.sector,
+        message.driver_number,
+        message.message,
+      ])
+    );
+
+    await this.recordIngestion(client, 'openf1', String(key), year, counts);
+  }
+
+  private async recordIngestion(
+    client: pg.PoolClient,
+    source: IngestionSource,
+    scope: string,
+    season: number,
+    counts: RowCounts
+  ): Promise<void> {
+    const rows = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    await client.query(
+      `INSERT INTO ingestions (source, scope, season, rows, ingested_at) VALUES ($1, $2, $3, $4, now())
+       ON CONFLICT (source, scope) DO UPDATE SET season = EXCLUDED.season, rows = EXCLUDED.rows, ingested_at = now()`,
+      [source, scope, season, rows]
+    );
+  }
+
+  async getStatus(): Promise<WarehouseStatus> {
+    const pool = await getPostgresPool();
+    const { rows: [migrations] } = await pool.query<{ version: number }>(
+      'SELECT coalesce(max(version), 0) AS version FROM schema_migrations'
+    );
+    const { rows: tables } = await pool.query<{ table: string; rows: number }>(
+      WAREHOUSE_TABLES.map(table => `SELECT '${table}' AS table, count(*)::int AS rows FROM ${table}`).join(' UNION ALL ')
+    );
+    const { rows: seasons } = await pool.query<{
+      year: number;
+      rounds: number;
+      rounds_with_results: number;
+      sessions: number;
+      last_ingested_at: Date | null;
+    }>(`
+      SELECT s.year,
+        (SELECT count(*)::int FROM races r WHERE r.season = s.year) AS rounds,
+        (SELECT count(DISTINCT round)::int FROM results r WHERE r.season = s.year) AS rounds_with_results,
+        (SELECT count(*)::int FROM sessions x JOIN meetings m USING (meeting_key) WHERE m.year = s.year) AS sessions,
+        (SELECT max(ingested_at) FROM ingestions i WHERE i.season = s.year) AS last_ingested_at
+      FROM seasons s
+      ORDER BY s.year
+    `);
+    return {
+      schema_version: migrations.version,
+      tables,
+      seasons: seasons.map(season => ({ ...season, last_ingested_at: iso(season.last_ingested_at) })),
+    };
+  }
+
+  /**
+   * Stored Ergast results in the shape the upstream tools return: one Race per
+   * round with Results, SprintResults or QualifyingResults
+   */
+  async getResults(
+    year: number,
+    options: { round?: number; session?: ResultSession; driverId?: string } = {}
+  ): Promise<Race[]> {
+    const pool = await getPostgresPool();
+    const session = options.session ?? 'race';
+    const round = options.round ?? null;
+    const driverId = options.driverId ?? null;
+
+    const { rows: races } = await pool.query(`
+      SELECT r.season, r.round, r.name, r.date, r.time, r.sprint_date,
+        c.circuit_id, c.name AS circuit_name, c.locality, c.country, c.lat, c.lng
+      FROM races r JOIN circuits c USING (circuit_id)
+      WHERE r.season = $1 AND ($2::int IS NULL OR r.round = $2)
+      ORDER BY r.round
+    `, [year, round]);
+
+    const entrant = `
+      d.driver_id, d.code, d.permanent_number, d.given_name, d.family_name, d.date_of_birth,
+      d.nationality AS driver_nationality,
+      k.constructor_id, k.name AS constructor_name, k.nationality AS constructor_nationality
+    `;
+    const { rows: entries } = session === 'qualifying'
+      ? await pool.query(`
+          SELECT q.round, q.position, q.car_number, q.q1, q.q2, q.q3, ${entrant}
+          FROM qualifying_results q
+          JOIN drivers d USING (driver_id) LEFT JOIN constructors k USING (constructor_id)
+          WHERE q.season = $1 AND ($2::int IS NULL OR q.round = $2) AND ($3::text IS NULL OR q.driver_id = $3)
+          ORDER BY q.round, q.ordinal
+        `, [year, round, driverId])
+      : await pool.query(`
+          SELECT res.round, res.position, res.position_text, res.car_number, res.grid, res.points, res.laps,
+            res.status, res.time, res.time_millis, res.fastest_lap, res.fastest_lap_rank, res.fastest_lap_time,
+            ${entrant}
+          FROM results res
+          JOIN drivers d USING (driver_id) LEFT JOIN constructors k USING (constructor_id)
+          WHERE res.season = $1 AND res.session = $4 AND ($2::int IS NULL OR res.round = $2)
+            AND ($3::text IS NULL OR res.driver_id = $3)
+          ORDER BY res.round, res.ordinal
+        `, [year, round, driverId, session]);
+
+    const key = session === 'qualifying' ? 'QualifyingResults' : session === 'sprint' ? 'SprintResults' : 'Results';
+    const raw = races
+      .map(race => ({
+        season: race.season,
+        round: race.round,
+        raceName: race.name,
+        date: race.date,
+        time: race.time ?? undefined,
+        Sprint: race.sprint_date ? { date: race.sprint_date } : undefined,
+        Circuit: {
+          circuitId: race.circuit_id,
+          circuitName: race.circuit_name,
+          Location: race.lat !== null && race.lng !== null
+            ? { lat: race.lat, long: race.lng, locality: race.locality ?? '', country: race.country ?? '' }
+            : undefined,
+        },
+        [key]: entries.filter(entry => entry.round === race.round).map(entry => ({
+          number: entry.car_number ?? undefined,
+          position: entry.position,
+          Driver: {
+            driverId: entry.driver_id,
+            permanentNumber: entry.permanent_number ?? undefined,
+            code: entry.code ?? undefined,
+            givenName: entry.given_name,
+            familyName: entry.family_name,
+            dateOfBirth: entry.date_of_birth ?? undefined,
+            nationality: entry.driver_nationality ?? undefined,
+          },
+          Constructor: entry.constructor_id
+            ? { constructorId: entry.constructor_id, name: entry.constructor_name, nationality: entry.constructor_nationality ?? undefined }
+            : undefined,
+          ...(session === 'qualifying'
+            ? { Q1: entry.q1 ?? undefined, Q2: entry.q2 ?? undefined, Q3: entry.q3 ?? undefined }
+            : {
+                positionText: entry.position_text,
+                points: entry.points,
+                grid: entry.grid ?? undefined,
+                laps: entry.laps ?? undefined,
+                status: entry.status,
+                Time: entry.time ? { time: entry.time, millis: entry.time_millis ?? undefined } : undefined,
+                FastestLap: entry.fastest_lap !== null
+                  ? { rank: entry.fastest_lap_rank ?? undefined, lap: entry.fastest_lap, Time: entry.fastest_lap_time ?? undefined }
+                  : undefined,
+              }),
+        })),
+      }))
+      // Like Ergast, only rounds with stored results are returned
+      .filter(race => race[key].length > 0);
+
+    return z.array(raceSchema).parse(raw);
+  }
+
+  /**
+   * Find a stored OpenF1 session by session_key, or by season, round and session name
+   */
+  async findSession(query: { sessionKey?: string } & Partial<SessionQuery>): Promise<ResolvedSession> {
+    const pool = await getPostgresPool();
+    const select = `
+      SELECT s.session_key, s.session_name, s.session_type, s.date_start AS session_start, s.date_end,
+        m.meeting_key, m.year, m.meeting_name, m.meeting_official_name, m.circuit_key, m.circuit_short_name,
+        m.country_code, m.country_key, m.country_name, m.location, m.date_start AS meeting_start, m.gmt_offset
+      FROM sessions s JOIN meetings m USING (meeting_key)
+    `;
+    let described: string;
+    let rows: any[];
+    if (query.sessionKey !== undefined) {
+      if (!/^\d+$/.test(query.sessionKey)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid session key "${query.sessionKey}"`);
+      }
+      described = `Session ${query.sessionKey}`;
+      ({ rows } = await pool.query(`${select} WHERE s.session_key = $1`, [Number(query.sessionKey)]));
+    } else if (query.year !== undefined && query.round !== undefined) {
+      const session = query.session ?? 'Race';
+      described = `The ${query.year} round ${query.round} ${session} session`;
+      ({ rows } = await pool.query(
+        `${select} WHERE m.season = $1 AND m.round = $2 AND lower(s.session_name) = ANY($3)`,
+        [query.year, query.round, sessionNamesFor(session).map(name => name.toLowerCase())]
+      ));
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, "Provide a sessionKey, or a year and round (and optionally a session)");
+    }
+
+    const [row] = rows;
+    if (!row) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${described} is not in the warehouse. Ingest it first with ingestSeason.`
+      );
+    }
+    const meeting: MeetingData = {
+      meeting_key: row.meeting_key,
+      meeting_name: row.meeting_name,
+      meeting_official_name: row.meeting_official_name,
+      circuit_key: row.circuit_key,
+      circuit_short_name: row.circuit_short_name,
+      country_code: row.country_code,
+      country_key: row.country_key,
+      country_name: row.country_name,
+      location: row.location,
+      date_start: row.meeting_start.toISOString(),
+      gmt_offset: row.gmt_offset,
+      year: row.year,
+    };
+    const session: HistoricalSessionData = {
+      circuit_key: row.circuit_key,
+      circuit_short_name: row.circuit_short_name,
+      country_code: row.country_code,
+      country_key: row.country_key,
+      country_name: row.country_name,
+      date_end: row.date_end.toISOString(),
+      date_start: row.session_start.toISOString(),
+      gmt_offset: row.gmt_offset,
+      location: row.location,
+      meeting_key: row.meeting_key,
+      session_key: row.session_key,
+      session_name: row.session_name,
+      session_type: row.session_type,
+      year: row.year,
+    };
+    return { session, meeting };
+  }
+
+  /**
+   * Stored OpenF1 datasets for a session in their upstream shapes
+   * `driverNumber` (a number, acronym or surname) narrows drivers, laps, stints and pit stops;
+   * weather and race control always cover the whole session
+   */
+  async getSessionData(
+    session: HistoricalSessionData,
+    datasets: SessionDataset[] = SESSION_DATASETS,
+    driverNumber?: string
+  ): Promise<StoredSessionData> {
+    const pool = await getPostgresPool();
+    const sessionKey = session.session_key;
+    const meetingKey = session.meeting_key;
+    const driver = driverNumber !== undefined ? await this.resolveDriverNumber(pool, sessionKey, driverNumber) : null;
+    const params = [sessionKey, driver];
+    const data: StoredSessionData = {};
+
+    if (datasets.includes('drivers')) {
+      const { rows } = await pool.query(`
+        SELECT driver_number, broadcast_name, full_name, first_name, last_name, name_acronym,
+          team_name, team_colour, headshot_url, country_code
+        FROM session_drivers
+        WHERE session_key = $1 AND ($2::int IS NULL OR driver_number = $2)
+        ORDER BY driver_number
+      `, params);
+      data.drivers = rows.map(row => ({ meeting_key: meetingKey, session_key: sessionKey, ...row }));
+    }
+    if (datasets.includes('laps')) {
+      const { rows } = await pool.query(`
+        SELECT driver_number, lap_number, date_start, lap_duration, duration_sector_1, duration_sector_2,
+          duration_sector_3, i1_speed, i2_speed, st_speed, is_pit_out_lap
+        FROM laps
+        WHERE session_key = $1 AND ($2::int IS NULL OR driver_number = $2)
+        ORDER BY lap_number, driver_number
+      `, params);
+      data.laps = rows.map(row => ({
+        meeting_key: meetingKey,
+        session_key: sessionKey,
+        ...row,
+        date_start: iso(row.date_start),
+      }));
+    }
+    if (datasets.includes('stints')) {
+      const { rows } = await pool.query(`
+        SELECT driver_number, stint_number, lap_start, lap_end, compound, tyre_age_at_start
+        FROM stints
+        WHERE session_key = $1 AND ($2::int IS NULL OR driver_number = $2)
+        ORDER BY driver_number, stint_number
+      `, params);
+      data.stints = rows.map(row => ({ meeting_key: meetingKey, session_key: sessionKey, ...row }));
+    }
+    if (datasets.includes('pit_stops')) {
+      const { rows } = await pool.query(`
+        SELECT date, driver_number, lap_number, pit_duration
+        FROM pit_stops
+        WHERE session_key = $1 AND ($2::int IS NULL OR driver_number = $2)
+        ORDER BY date
+      `, params);
+      data.pit_stops = rows.map(row => ({ ...row, date: row.date.toISOString(), lap_number: row.lap_number ?? undefined }));
+    }
+    if (datasets.includes('weather')) {
+      const { rows } = await pool.query(`
+        SELECT date, air_temperature, track_temperature, humidity, pressure, wind_direction, wind_speed, rainfall
+        FROM weather WHERE session_key = $1 ORDER BY date
+      `, [sessionKey]);
+      data.weather = rows.map(row => ({ ...row, date: row.date.toISOString() }));
+    }
+    if (datasets.includes('race_control')) {
+      const { rows } = await pool.query(`
+        SELECT date, category, message, flag, scope, sector, driver_number, lap_number
+        FROM race_control WHERE session_key = $1 ORDER BY date, id
+      `, [sessionKey]);
+      data.race_control = rows.map(row => ({ ...row, date: row.date.toISOString() }));
+    }
+    return data;
+  }
+
+  private async resolveDriverNumber(pool: pg.Pool, sessionKey: number, driver: string): Promise<number> {
+    if (/^\d+$/.test(driver.trim())) {
+      return Number(driver);
+    }
+    const { rows: [match] } = await pool.query<{ driver_number: number }>(`
+      SELECT driver_number FROM session_drivers
+      WHERE session_key = $1 AND (upper(name_acronym) = upper($2) OR last_name ILIKE $2 OR full_name ILIKE $2)
+    `, [sessionKey, driver.trim()]);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `No driver "${driver}" in stored session ${sessionKey}`);
+    }
+    return match.driver_number;
+  }
+}
+
+export const warehouse = WarehouseService.getInstance();
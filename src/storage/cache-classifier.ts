@@ -0,0 +1,69 @@
+/**
+ * Immutable vs volatile classification of upstream URLs
+ * Ergast responses for a season before the current one never change. OpenF1
+ * responses are immutable when they are scoped to a past year or to a session
+ * (or meeting) that ended more than SETTLE_MS ago; session end times are
+ * learned from the /sessions responses that pass through the cache.
+ */
+
+import { CacheClass } from './cache-types.js';
+
+// OpenF1 keeps correcting a session's data for a while after it ends
+const SETTLE_MS = 6 * 60 * 60 * 1000;
+
+export class CacheClassifier {
+  private sessionEnds: Map<number, number> = new Map();
+  private meetingEnds: Map<number, number> = new Map();
+
+  constructor(private ergastBaseUrl: string, private openf1BaseUrl: string) {}
+
+  get endedSessions(): number {
+    const now = Date.now();
+    return [...this.sessionEnds.values()].filter(end => end + SETTLE_MS < now).length;
+  }
+
+  /**
+   * Learn session and meeting end times from an OpenF1 /sessions response
+   */
+  observe(url: string, data: unknown): void {
+    if (!url.startsWith(`${this.openf1BaseUrl}/sessions`) || !Array.isArray(data)) {
+      return;
+    }
+    for (const session of data) {
+      const end = Date.parse(session?.date_end ?? '');
+      if (typeof session?.session_key !== 'number' || isNaN(end)) {
+        continue;
+      }
+      this.sessionEnds.set(session.session_key, end);
+      if (typeof session.meeting_key === 'number') {
+        this.meetingEnds.set(session.meeting_key, Math.max(end, this.meetingEnds.get(session.meeting_key) ?? 0));
+      }
+    }
+  }
+
+  classify(url: string, now: number = Date.now()): CacheClass {
+    const currentYear = new Date(now).getUTCFullYear();
+
+    if (url.startsWith(`${this.ergastBaseUrl}/`)) {
+      const season = Number(url.slice(this.ergastBaseUrl.length + 1).split(/[/.?]/)[0]);
+      return Number.isInteger(season) && season > 0 && season < currentYear ? 'immutable' : 'volatile';
+    }
+
+    if (url.startsWith(`${this.openf1BaseUrl}/`)) {
+      const params = new URLSearchParams(url.split('?')[1] ?? '');
+      const ended = (ends: Map<number, number>, value: string | null) => {
+        const end = value !== null ? ends.get(Number(value)) : undefined;
+        return end !== undefined && end + SETTLE_MS < now;
+      };
+      const year = Number(params.get('year'));
+      if (
+        ended(this.sessionEnds, params.get('session_key')) ||
+        ended(this.meetingEnds, params.get('meeting_key')) ||
+        (year > 0 && year < currentYear)
+      ) {
+        return 'immutable';
+      }
+    }
+    return 'volatile';
+  }
+}
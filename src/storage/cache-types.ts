@@ -0,0 +1,47 @@
+/**
+ * Response cache types
+ * Upstream responses are cached by URL. Immutable responses (past seasons,
+ * ended sessions) never change once published; volatile ones (live data, the
+ * current season) expire after their TTL.
+ */
+
+export type CacheClass = 'immutable' | 'volatile';
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  storedAt: number;
+  // Epoch milliseconds; null keeps the entry until the cache is cleared
+  expiresAt: number | null;
+}
+
+/**
+ * Storage behind the response cache
+ */
+export interface CacheBackend {
+  readonly name: string;
+  // Whether volatile entries are kept here too (a file backend only keeps
+  // immutable ones)
+  readonly storesVolatile: boolean;
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  clear(): Promise<void>;
+  // `bytes` is null when the backend cannot measure its size
+  size(): Promise<{ entries: number; bytes: number | null }>;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  backend: string;
+  hits: { memory: number; persistent: number };
+  misses: number;
+  hit_rate: number | null;
+  by_class: Record<CacheClass, { hits: number; misses: number; writes: number }>;
+  memory_entries: number;
+  persistent_entries: number | null;
+  persistent_bytes: number | null;
+  ended_sessions: number;
+}
+
+export function isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt !== null && now > entry.expiresAt;
+}
@@ -0,0 +1,84 @@
+/**
+ * JSON-on-disk cache backend
+ * One file per response under CACHE_DIR, named by the SHA-256 of the URL.
+ * Only immutable responses are written, so the directory survives restarts
+ * without going stale.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { CacheBackend, CacheEntry, isExpired } from './cache-types.js';
+import { logger } from '../utils/logger.js';
+
+interface StoredEntry<T> extends CacheEntry<T> {
+  key: string;
+}
+
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+  readonly storesVolatile = false;
+
+  constructor(private directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const file = this.pathFor(key);
+    try {
+      const entry = JSON.parse(await readFile(file, 'utf8')) as StoredEntry<T>;
+      // Guard against hash collisions and hand-edited files
+      if (entry.key !== key) {
+        return undefined;
+      }
+      if (isExpired(entry)) {
+        await unlink(file).catch(() => undefined);
+        return undefined;
+      }
+      return { data: entry.data, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Unreadable cache file', { file, error: error.message });
+      }
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const file = this.pathFor(key);
+    const stored: StoredEntry<T> = { key, ...entry };
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename so a crash never leaves a half-written entry
+    const temporary = `${file}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(stored));
+    await rename(temporary, file);
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.files()) {
+      await unlink(path.join(this.directory, file)).catch(() => undefined);
+    }
+  }
+
+  async size(): Promise<{ entries: number; bytes: number | null }> {
+    const files = await this.files();
+    let bytes = 0;
+    for (const file of files) {
+      bytes += await stat(path.join(this.directory, file)).then(info => info.size, () => 0);
+    }
+    return { entries: files.length, bytes };
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Backfill checkpoint
+ * Records which backfill tasks of a season have completed, so an interrupted
+ * or partly failed `f1-mcp ingest` run picks up where it stopped. Saved after
+ * every task as JSON, by default under CACHE_DIR/ingest/<season>.json.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+
+interface CheckpointState {
+  season: number;
+  completed: string[];
+  // Last error per task that has not succeeded yet
+  failed: Record<string, string>;
+  updated_at: string;
+}
+
+export function defaultCheckpointPath(season: number): string {
+  return path.join(config.cacheDir, 'ingest', `${season}.json`);
+}
+
+export class IngestCheckpoint {
+  private completed: Set<string>;
+
+  private constructor(readonly file: string, private state: CheckpointState) {
+    this.completed = new Set(state.completed);
+  }
+
+  /**
+   * Load the checkpoint for a season, or start an empty one when the file is
+   * missing or `restart` is set
+   */
+  static async load(file: string, season: number, restart = false): Promise<IngestCheckpoint> {
+    const empty: CheckpointState = { season, completed: [], failed: {}, updated_at: new Date().toISOString() };
+    if (restart) {
+      return new IngestCheckpoint(file, empty);
+    }
+    try {
+      const state = JSON.parse(await readFile(file, 'utf8')) as CheckpointState;
+      if (state.season !== season) {
+        throw new Error(`Checkpoint ${file} belongs to the ${state.season} season, not ${season}`);
+      }
+      return new IngestCheckpoint(file, { ...empty, ...state });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return new IngestCheckpoint(file, empty);
+      }
+      throw error;
+    }
+  }
+
+  get completedCount(): number {
+    return this.completed.size;
+  }
+
+  has(task: string): boolean {
+    return this.completed.has(task);
+  }
+
+  async complete(task: string): Promise<void> {
+    this.completed.add(task);
+    delete this.state.failed[task];
+    await this.save();
+  }
+
+  async fail(task: string, error: string): Promise<void> {
+    this.state.failed[task] = error;
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    this.state.completed = [...this.completed];
+    this.state.updated_at = new Date().toISOString();
+    await mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so an interrupted run never leaves a truncated checkpoint
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(this.state, null, 2));
+    await rename(temporary, this.file);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * In-process cache backend: the first tier of the response cache and the
+ * only one when CACHE_BACKEND=memory
+ */
+
+import { CacheBackend, CacheEntry, isExpired } from './cache-types.js';
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  readonly storesVolatile = true;
+  private store: Map<string, CacheEntry<any>> = new Map();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.store.get(key);
+    if (entry && isExpired(entry)) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.store.set(key, entry);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  async size(): Promise<{ entries: number; bytes: number | null }> {
+    for (const [key, entry] of this.store) {
+      if (isExpired(entry)) {
+        this.store.delete(key);
+      }
+    }
+    return { entries: this.store.size, bytes: null };
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Shared Postgres pool
+ * One pool per process, created on first use when POSTGRES_ENABLED is set.
+ * The warehouse schema is migrated before the pool is handed out, and the
+ * readiness probe reports whether that succeeded.
+ */
+
+import pg from 'pg';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { runMigrations } from './warehouse-migrations.js';
+
+// Return DATE columns as 'YYYY-MM-DD' strings rather than local-midnight Dates
+pg.types.setTypeParser(pg.types.builtins.DATE, value => value);
+
+let pool: pg.Pool | undefined;
+let migrated: Promise<pg.Pool> | undefined;
+let ready = false;
+
+function createPool(): pg.Pool {
+  const created = new pg.Pool({
+    host: config.postgresHost,
+    port: config.postgresPort,
+    user: config.postgresUser,
+    password: config.postgresPassword,
+    database: config.postgresDatabase,
+  });
+  // Idle clients that lose their connection emit here; migrations are re-checked on next use
+  created.on('error', error => {
+    logger.warn('Postgres error', { error: error.message });
+    ready = false;
+    migrated = undefined;
+  });
+  return created;
+}
+
+/**
+ * The migrated warehouse pool
+ * Throws when Postgres is disabled or the schema cannot be brought up to date
+ */
+export async function getPostgresPool(): Promise<pg.Pool> {
+  if (!config.postgresEnabled) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "The Postgres warehouse is disabled. Set POSTGRES_ENABLED=true and the POSTGRES_* connection settings."
+    );
+  }
+  pool ??= createPool();
+  if (!migrated) {
+    const current = pool;
+    migrated = runMigrations(current)
+      .then(() => {
+        ready = true;
+        logger.info('Postgres connected', { host: config.postgresHost, database: config.postgresDatabase });
+        return current;
+      })
+      .catch(error => {
+        migrated = undefined;
+        logger.error('Postgres migration failed', { error: error.message });
+        throw new McpError(ErrorCode.InternalError, `Postgres warehouse unavailable: ${error.message}`);
+      });
+  }
+  return migrated;
+}
+
+export function isPostgresReady(): boolean {
+  if (config.postgresEnabled && !ready) {
+    // Start (or retry) connecting so the next probe can succeed
+    getPostgresPool().catch(() => undefined);
+  }
+  return ready;
+}
+
+/**
+ * Run `work` in a transaction, rolling back if it throws
+ */
+export async function withTransaction<T>(work: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await (await getPostgresPool()).connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function closePostgres(): Promise<void> {
+  const current = pool;
+  pool = undefined;
+  migrated = undefined;
+  ready = false;
+  await current?.end();
+}
@@ -0,0 +1,60 @@
+/**
+ * Redis cache backend
+ * Used instead of the file backend when REDIS_ENABLED is set, so every replica
+ * shares one cache. Volatile entries are stored too, with their TTL as the
+ * key expiry; immutable entries never expire.
+ */
+
+import { CacheBackend, CacheEntry } from './cache-types.js';
+import { RedisClient } from './redis-client.js';
+
+const KEY_PREFIX = 'f1mcp:cache:';
+
+// Keys deleted per UNLINK when clearing
+const CLEAR_BATCH = 500;
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  readonly storesVolatile = true;
+
+  constructor(private client: RedisClient) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const raw = await this.client.get(KEY_PREFIX + key);
+    return raw !== null ? JSON.parse(raw) as CacheEntry<T> : undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const value = JSON.stringify(entry);
+    if (entry.expiresAt === null) {
+      await this.client.set(KEY_PREFIX + key, value);
+      return;
+    }
+    const ttl = entry.expiresAt - Date.now();
+    if (ttl > 0) {
+      await this.client.set(KEY_PREFIX + key, value, { PX: ttl });
+    }
+  }
+
+  async clear(): Promise<void> {
+    let batch: string[] = [];
+    for await (const key of this.client.scanIterator({ MATCH: `${KEY_PREFIX}*`, COUNT: CLEAR_BATCH })) {
+      batch.push(key);
+      if (batch.length >= CLEAR_BATCH) {
+        await this.client.unlink(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await this.client.unlink(batch);
+    }
+  }
+
+  async size(): Promise<{ entries: number; bytes: number | null }> {
+    let entries = 0;
+    for await (const _key of this.client.scanIterator({ MATCH: `${KEY_PREFIX}*`, COUNT: CLEAR_BATCH })) {
+      entries++;
+    }
+    return { entries, bytes: null };
+  }
+}
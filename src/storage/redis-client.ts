@@ -0,0 +1,54 @@
+/**
+ * Shared Redis connection
+ * One client per process, created on first use when REDIS_ENABLED is set and
+ * shared by the response cache and the rate limiter so replicas share both.
+ * Commands fail fast while disconnected (no offline queue) and callers fall
+ * back to their in-memory stores.
+ */
+
+import { createClient } from 'redis';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+// Longest wait between reconnection attempts
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+let client: RedisClient | undefined;
+
+export function getRedisClient(): RedisClient | undefined {
+  if (!config.redisEnabled) {
+    return undefined;
+  }
+  if (!client) {
+    client = createClient({
+      socket: {
+        host: config.redisHost,
+        port: config.redisPort,
+        reconnectStrategy: retries => Math.min(retries * 500, MAX_RECONNECT_DELAY_MS),
+      },
+      password: config.redisPassword,
+      database: config.redisDb,
+      disableOfflineQueue: true,
+    });
+    client.on('error', error => logger.warn('Redis error', { error: error.message }));
+    client.on('ready', () => logger.info('Redis connected', { host: config.redisHost, port: config.redisPort }));
+    client.connect().catch(error => logger.error('Redis connection failed', { error: error.message }));
+  }
+  return client;
+}
+
+export function isRedisReady(): boolean {
+  return getRedisClient()?.isReady ?? false;
+}
+
+export async function closeRedis(): Promise<void> {
+  // QUIT needs a live connection; a client still reconnecting is just dropped
+  if (client?.isReady) {
+    await client.quit();
+  } else if (client?.isOpen) {
+    await client.disconnect();
+  }
+  client = undefined;
+}
@@ -0,0 +1,262 @@
+/**
+ * Warehouse schema migrations
+ * Applied in version order, each in its own transaction, and recorded in
+ * schema_migrations. An advisory lock keeps replicas that start together
+ * from applying the same migration twice. Never edit a released migration;
+ * add a new one.
+ */
+
+import pg from 'pg';
+import { logger } from '../utils/logger.js';
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Arbitrary key shared by every process migrating this database
+const MIGRATION_LOCK = 4_815_162_342;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      -- Ergast: calendar, entrants and classified results
+      CREATE TABLE seasons (
+        year integer PRIMARY KEY
+      );
+
+      CREATE TABLE circuits (
+        circuit_id text PRIMARY KEY,
+        name text NOT NULL,
+        locality text,
+        country text,
+        lat double precision,
+        lng double precision
+      );
+
+      CREATE TABLE races (
+        season integer NOT NULL REFERENCES seasons (year),
+        round integer NOT NULL,
+        name text NOT NULL,
+        circuit_id text NOT NULL REFERENCES circuits (circuit_id),
+        date date NOT NULL,
+        time text,
+        sprint_date date,
+        PRIMARY KEY (season, round)
+      );
+
+      CREATE TABLE drivers (
+        driver_id text PRIMARY KEY,
+        code text,
+        permanent_number integer,
+        given_name text NOT NULL,
+        family_name text NOT NULL,
+        date_of_birth date,
+        nationality text
+      );
+
+      CREATE TABLE constructors (
+        constructor_id text PRIMARY KEY,
+        name text NOT NULL,
+        nationality text
+      );
+
+      -- Keyed by order in the Ergast classification, not position: drivers who
+      -- shared a car share its position, and one driver can be classified in two cars
+      CREATE TABLE results (
+        season integer NOT NULL,
+        round integer NOT NULL,
+        session text NOT NULL CHECK (session IN ('race', 'sprint')),
+        ordinal integer NOT NULL,
+        position integer NOT NULL,
+        position_text text NOT NULL,
+        driver_id text NOT NULL REFERENCES drivers (driver_id),
+        constructor_id text REFERENCES constructors (constructor_id),
+        car_number integer,
+        grid integer,
+        points double precision NOT NULL,
+        laps integer,
+        status text NOT NULL,
+        time text,
+        time_millis integer,
+        fastest_lap integer,
+        fastest_lap_rank integer,
+        fastest_lap_time text,
+        PRIMARY KEY (season, round, session, ordinal),
+        FOREIGN KEY (season, round) REFERENCES races (season, round)
+      );
+      CREATE INDEX results_driver_idx ON results (driver_id, season);
+
+      CREATE TABLE qualifying_results (
+        season integer NOT NULL,
+        round integer NOT NULL,
+        ordinal integer NOT NULL,
+        position integer NOT NULL,
+        driver_id text NOT NULL REFERENCES drivers (driver_id),
+        constructor_id text REFERENCES constructors (constructor_id),
+        car_number integer,
+        q1 text,
+        q2 text,
+        q3 text,
+        PRIMARY KEY (season, round, ordinal),
+        FOREIGN KEY (season, round) REFERENCES races (season, round)
+      );
+
+      -- OpenF1: meetings link to a calendar round when one matches by date
+      CREATE TABLE meetings (
+        meeting_key integer PRIMARY KEY,
+        year integer NOT NULL,
+        season integer,
+        round integer,
+        meeting_name text NOT NULL,
+        meeting_official_name text,
+        circuit_key integer,
+        circuit_short_name text,
+        country_code text,
+        country_key integer,
+        country_name text,
+        location text,
+        date_start timestamptz NOT NULL,
+        gmt_offset text,
+        FOREIGN KEY (season, round) REFERENCES races (season, round)
+      );
+      CREATE INDEX meetings_round_idx ON meetings (season, round);
+
+      CREATE TABLE sessions (
+        session_key integer PRIMARY KEY,
+        meeting_key integer NOT NULL REFERENCES meetings (meeting_key),
+        session_name text NOT NULL,
+        session_type text NOT NULL,
+        date_start timestamptz NOT NULL,
+        date_end timestamptz NOT NULL
+      );
+      CREATE INDEX sessions_meeting_idx ON sessions (meeting_key);
+
+      CREATE TABLE session_drivers (
+        session_key integer NOT NULL REFERENCES sessions (session_key) ON DELETE CASCADE,
+        driver_number integer NOT NULL,
+        broadcast_name text NOT NULL,
+        full_name text NOT NULL,
+        first_name text,
+        last_name text,
+        name_acronym text NOT NULL,
+        team_name text,
+        team_colour text,
+        headshot_url text,
+        country_code text,
+        PRIMARY KEY (session_key, driver_number)
+      );
+
+      CREATE TABLE laps (
+        session_key integer NOT NULL REFERENCES sessions (session_key) ON DELETE CASCADE,
+        driver_number integer NOT NULL,
+        lap_number integer NOT NULL,
+        date_start timestamptz,
+        lap_duration double precision,
+        duration_sector_1 double precision,
+        duration_sector_2 double precision,
+        duration_sector_3 double precision,
+        i1_speed integer,
+        i2_speed integer,
+        st_speed integer,
+        is_pit_out_lap boolean NOT NULL,
+        PRIMARY KEY (session_key, driver_number, lap_number)
+      );
+
+      CREATE TABLE stints (
+        session_key integer NOT NULL REFERENCES sessions (session_key) ON DELETE CASCADE,
+        driver_number integer NOT NULL,
+        stint_number integer NOT NULL,
+        compound text,
+        lap_start integer,
+        lap_end integer,
+        tyre_age_at_start integer,
+        PRIMARY KEY (session_key, driver_number, stint_number)
+      );
+
+      CREATE TABLE pit_stops (
+        session_key integer NOT NULL REFERENCES sessions (session_key) ON DELETE CASCADE,
+        driver_number integer NOT NULL,
+        date timestamptz NOT NULL,
+        lap_number integer,
+        pit_duration double precision,
+        PRIMARY KEY (session_key, driver_number, date)
+      );
+
+      CREATE TABLE weather (
+        session_key integer NOT NULL REFERENCES sessions (session_key) ON DELETE CASCADE,
+        date timestamptz NOT NULL,
+        air_temperature double precision,
+        track_temperature double precision,
+        humidity double precision,
+        pressure double precision,
+        rainfall double precision,
+        wind_direction integer,
+        wind_speed double precision,
+        PRIMARY KEY (session_key, date)
+      );
+
+      CREATE TABLE race_control (
+        id integer GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+        session_key integer NOT NULL REFERENCES sessions (session_key) ON DELETE CASCADE,
+        date timestamptz NOT NULL,
+        lap_number integer,
+        category text NOT NULL,
+        flag text,
+        scope text,
+        sector integer,
+        driver_number integer,
+        message text NOT NULL
+      );
+      CREATE INDEX race_control_session_idx ON race_control (session_key, date);
+
+      -- One row per ingested unit ('2024/5' for an Ergast round, a session_key for OpenF1)
+      CREATE TABLE ingestions (
+        source text NOT NULL,
+        scope text NOT NULL,
+        season integer NOT NULL,
+        rows integer NOT NULL,
+        ingested_at timestamptz NOT NULL DEFAULT now(),
+        PRIMARY KEY (source, scope)
+      );
+    `,
+  },
+];
+
+export async function runMigrations(pool: pg.Pool): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version integer PRIMARY KEY,
+        name text NOT NULL,
+        applied_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    const { rows } = await client.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map(row => row.version));
+
+    for (const migration of MIGRATIONS.filter(candidate => !applied.has(candidate.version))) {
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      logger.info('Applied warehouse migration', { version: migration.version, name: migration.name });
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK]).catch(() => undefined);
+    client.release();
+  }
+}
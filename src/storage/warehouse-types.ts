@@ -0,0 +1,43 @@
+/**
+ * Postgres warehouse types
+ * Ergast seasons and OpenF1 sessions are ingested into a normalised schema
+ * (see warehouse-migrations.ts) so historical queries keep working when the
+ * upstream APIs are down.
+ */
+
+export type IngestionSource = 'ergast' | 'openf1';
+
+// OpenF1 per-session datasets that can be read back from the warehouse
+export type SessionDataset = 'drivers' | 'laps' | 'stints' | 'pit_stops' | 'weather' | 'race_control';
+
+export interface IngestionFailure {
+  // '2024/5' for an Ergast round, 'session 9159' for an OpenF1 session
+  scope: string;
+  error: string;
+}
+
+export interface IngestionReport {
+  season: number;
+  round: number | null;
+  sources: IngestionSource[];
+  rounds: number;
+  sessions: number;
+  // Rows written per table
+  rows: Record<string, number>;
+  failures: IngestionFailure[];
+  duration_ms: number;
+}
+
+export interface WarehouseSeason {
+  year: number;
+  rounds: number;
+  rounds_with_results: number;
+  sessions: number;
+  last_ingested_at: string | null;
+}
+
+export interface WarehouseStatus {
+  schema_version: number;
+  tables: { table: string; rows: number }[];
+  seasons: WarehouseSeason[];
+}
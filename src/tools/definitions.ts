@@ -0,0 +1,1305 @@
+/**
+ * F1 tool definitions
+ * Every tool exposed by the server is declared here exactly once
+ */
+
+import { z } from "zod";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { F1DataService } from "../services/f1-data.service.js";
+import { entityResolver } from "../services/entity-resolver.service.js";
+import { sessionResolver } from "../services/session-resolver.service.js";
+import { f1Analysis } from "../services/f1-analysis.service.js";
+import { responseCache } from "../services/response-cache.service.js";
+import { warehouse } from "../services/warehouse.service.js";
+import { AnyToolDefinition, defineTool } from "./types.js";
+import {
+  circuitSchema,
+  constructorSchema,
+  driverSchema,
+  Paging,
+  pagingSchema,
+  raceSchema,
+  raceWeekendSchema,
+  seasonSchema,
+  standingsListSchema,
+  statusSchema,
+} from "../interfaces/ergast.interface.js";
+import {
+  cacheStatsSchema,
+  carDataSchema,
+  championshipScenariosSchema,
+  entityMatchSchema,
+  historicalSessionSchema,
+  ingestionReportSchema,
+  intervalSchema,
+  lapDataSchema,
+  liveTimingSchema,
+  locationSchema,
+  meetingSchema,
+  pitCycleAnalysisSchema,
+  pitSchema,
+  positionChartSchema,
+  qualifyingDataSchema,
+  raceControlSchema,
+  recomputedStandingsSchema,
+  sessionDriverSchema,
+  sessionResultSchema,
+  sessionSchema,
+  sessionTimelineSchema,
+  startingGridSchema,
+  stintAnalysisSchema,
+  stintSchema,
+  strategySimulationSchema,
+  teamRadioSchema,
+  telemetryDataSchema,
+  trackPositionSchema,
+  warehouseStatusSchema,
+  weatherSchema,
+} from "./schemas.js";
+
+const f1Service = F1DataService.getInstance();
+
+const NO_LIVE_DATA_HINT =
+  "Live data is only available during active F1 sessions. Use historical data tools instead.";
+
+// Summarise a list result, e.g. "12 pit stops for session 9159"
+function describeCount(count: number, noun: string, context?: string): string {
+  const suffix = context ? ` ${context}` : "";
+  if (count === 0) {
+    return `No ${noun} found${suffix}. Try adjusting your query parameters or check data availability.`;
+  }
+  return `${count} ${noun}${suffix}`;
+}
+
+// Flag Ergast results that hit the configured row cap
+function describeTruncation(paging: Paging): string {
+  return paging.truncated ? ` (truncated: ${paging.fetched} of ${paging.total} rows)` : "";
+}
+
+function describeLiveCount(count: number, noun: string): string {
+  return count === 0 ? `No live ${noun} available. ${NO_LIVE_DATA_HINT}` : `${count} live ${noun}`;
+}
+
+// Lets session-scoped tools take {year, round | event, session} instead of a raw sessionKey
+const sessionLookupShape = {
+  year: z.number().optional().describe("Season (2023+), used with round or event when sessionKey is omitted"),
+  round: z.number().optional().describe("Round number within the season"),
+  event: z.string().optional().describe('Event name, country or circuit (e.g., "Monza", "Italian Grand Prix")'),
+  session: z.string().optional().describe('"Race" (default), "Qualifying", "Sprint", "Sprint Qualifying", "FP1", "FP2" or "FP3"'),
+};
+
+interface SessionLookup {
+  sessionKey?: string;
+  year?: number;
+  round?: number;
+  event?: string;
+  session?: string;
+}
+
+async function resolveSessionKey(lookup: SessionLookup): Promise<string | undefined> {
+  if (lookup.sessionKey) {
+    return lookup.sessionKey;
+  }
+  if (lookup.year === undefined || (lookup.round === undefined && !lookup.event)) {
+    return undefined;
+  }
+  const { session } = await sessionResolver.resolveSession({
+    year: lookup.year,
+    round: lookup.round,
+    event: lookup.event,
+    session: lookup.session,
+  });
+  return String(session.session_key);
+}
+
+async function requireSessionKey(lookup: SessionLookup): Promise<string> {
+  const sessionKey = await resolveSessionKey(lookup);
+  if (!sessionKey) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Provide a sessionKey, or a year with a round or event (and optionally a session) to look it up"
+    );
+  }
+  return sessionKey;
+}
+
+// Accept names and acronyms ("VER", "Max") wherever an OpenF1 driver number is expected
+async function resolveDriverNumber(driverNumber: string, sessionKey?: string): Promise<string>;
+async function resolveDriverNumber(driverNumber?: string, sessionKey?: string): Promise<string | undefined>;
+async function resolveDriverNumber(driverNumber?: string, sessionKey?: string): Promise<string | undefined> {
+  if (!driverNumber || !sessionKey) {
+    return driverNumber;
+  }
+  return entityResolver.resolveSessionDriverNumber(driverNumber, sessionKey);
+}
+
+export const toolDefinitions: AnyToolDefinition[] = [
+  // Live data endpoints
+  defineTool({
+    name: "getLiveTimingData",
+    description: "Get live F1 timing data",
+    inputSchema: {},
+    outputSchema: { timing: z.array(liveTimingSchema) },
+    handler: async () => {
+      const timing = await f1Service.getLiveTimingData();
+      return {
+        summary: timing.length === 0
+          ? "No live F1 session data available at the moment. Please check back during a race weekend."
+          : `${timing.length} live timing entries`,
+        data: { timing },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getCurrentSessionStatus",
+    description: "Get current F1 session status",
+    inputSchema: {},
+    outputSchema: { session: sessionSchema },
+    handler: async () => {
+      const session = await f1Service.getCurrentSessionStatus();
+      return {
+        summary: session.session_name
+          ? `${session.session_name} is ${session.status}`
+          : "No active session",
+        data: { session },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getDriverInfo",
+    description: "Get driver bio information (Ergast API)",
+    inputSchema: {
+      driverId: z.string().describe("Driver ID, name, code or number (e.g., 'hamilton', 'Max', 'VER')"),
+    },
+    outputSchema: { driver: driverSchema.nullable() },
+    handler: async ({ driverId: driverIdQuery }) => {
+      const driverId = await entityResolver.resolveDriverId(driverIdQuery);
+      const driver = await f1Service.getDriverInfo(driverId);
+      return {
+        summary: driver
+          ? `${driver.givenName} ${driver.familyName} (${driver.nationality})`
+          : `No driver found with ID: ${driverId}`,
+        data: { driver },
+      };
+    },
+  }),
+
+  // Tool to find historical session keys
+  defineTool({
+    name: "getHistoricalSessions",
+    description: "Find historical F1 sessions and their session keys (OpenF1 API)",
+    inputSchema: {
+      year: z.number().optional(),
+      circuit_short_name: z.string().optional(),
+      session_name: z.string().optional(),
+      country_name: z.string().optional(),
+      location: z.string().optional(),
+    },
+    outputSchema: { sessions: z.array(historicalSessionSchema) },
+    handler: async (filters) => {
+      const sessions = await f1Service.getHistoricalSessions(filters);
+      return {
+        summary: describeCount(sessions.length, "sessions", "matching the filters"),
+        data: { sessions },
+      };
+    },
+  }),
+
+  // Historic data endpoints
+  defineTool({
+    name: "getHistoricRaceResults",
+    description: "Get historic race results",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: { race: raceSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round }) => {
+      const { data: race = null, paging } = await f1Service.getHistoricRaceResults(year, round);
+      return {
+        summary: race
+          ? `${race.season} ${race.raceName}: ${race.Results?.length ?? 0} classified results`
+          : `No race results for ${year} round ${round}`,
+        data: { race, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getDriverStandings",
+    description: "Get driver standings, optionally as they stood after a given round",
+    inputSchema: {
+      year: z.number(),
+      round: z.number().optional(),
+    },
+    outputSchema: { standings: standingsListSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round }) => {
+      const { data: standings = null, paging } = await f1Service.getDriverStandings(year, round);
+      return {
+        summary: standings
+          ? `${year} driver standings after round ${standings.round}`
+          : `No driver standings for ${year}`,
+        data: { standings, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getConstructorStandings",
+    description: "Get constructor standings, optionally as they stood after a given round",
+    inputSchema: {
+      year: z.number(),
+      round: z.number().optional(),
+    },
+    outputSchema: { standings: standingsListSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round }) => {
+      const { data: standings = null, paging } = await f1Service.getConstructorStandings(year, round);
+      return {
+        summary: standings
+          ? `${year} constructor standings after round ${standings.round}`
+          : `No constructor standings for ${year}`,
+        data: { standings, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getLapTimes",
+    description: "Get lap times",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+      driverId: z.string(),
+    },
+    outputSchema: { race: raceSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round, driverId: driverIdQuery }) => {
+      const driverId = await entityResolver.resolveDriverId(driverIdQuery, year);
+      const { data: race = null, paging } = await f1Service.getLapTimes(year, round, driverId);
+      return {
+        summary: race
+          ? `${race.Laps?.length ?? 0} laps for ${driverId} at the ${race.season} ${race.raceName}${describeTruncation(paging)}`
+          : `No lap times for ${driverId} in ${year} round ${round}`,
+        data: { race, paging },
+      };
+    },
+  }),
+
+  // OpenF1 API tools
+  defineTool({
+    name: "getWeatherData",
+    description: "Get weather data",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+    },
+    outputSchema: { weather: z.array(weatherSchema) },
+    handler: async (lookup) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const weather = await f1Service.getWeatherData(sessionKey);
+      return {
+        summary: describeCount(weather.length, "weather samples", `for session ${sessionKey}`),
+        data: { weather },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getCarData",
+    description: "Get car telemetry data (requires a session, auto-adds speed>=0 filter)",
+    inputSchema: {
+      driverNumber: z.string().describe('Driver number, acronym or name (e.g., "1", "VER")'),
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      filters: z.string().optional().describe("Optional filters like 'speed>=300' or 'lap_number=1'"),
+    },
+    outputSchema: { telemetry: z.array(carDataSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, filters, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const telemetry = await f1Service.getCarData(driverNumber, sessionKey, filters);
+      return {
+        summary: describeCount(
+          telemetry.length,
+          "telemetry samples",
+          `for driver ${driverNumber} in session ${sessionKey}`
+        ),
+        data: { telemetry },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getPitStopData",
+    description: "Get pit stop data",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { pitStops: z.array(pitSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      // Pit stops can be listed across sessions, but a partial lookup must not fall back to that
+      const hasLookup = Object.values(lookup).some(value => value !== undefined);
+      const sessionKey = hasLookup ? await requireSessionKey(lookup) : undefined;
+      if (!sessionKey && driverNumberQuery && !/^\d+$/.test(driverNumberQuery)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Driver names and acronyms are resolved within a session: provide a sessionKey, or a year with a round or event, or pass a driver number"
+        );
+      }
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const pitStops = await f1Service.getPitStopData(sessionKey, driverNumber);
+      return {
+        summary: describeCount(pitStops.length, "pit stops", sessionKey ? `for session ${sessionKey}` : undefined),
+        data: { pitStops },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getTeamRadio",
+    description: "Get team radio communications (may not be available for all historical sessions)",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { radio: z.array(teamRadioSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const radio = await f1Service.getTeamRadio(sessionKey, driverNumber || "");
+      return {
+        summary: describeCount(radio.length, "team radio messages", `for session ${sessionKey}`),
+        data: { radio },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getRaceControlMessages",
+    description: "Get race control messages",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+    },
+    outputSchema: { messages: z.array(raceControlSchema) },
+    handler: async (lookup) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const messages = await f1Service.getRaceControlMessages(sessionKey);
+      return {
+        summary: describeCount(messages.length, "race control messages", `for session ${sessionKey}`),
+        data: { messages },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getLaps",
+    description: "Get lap times, sector times and speed traps for a session",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+      lapNumber: z.number().optional().describe('Filter by lap number'),
+    },
+    outputSchema: { laps: z.array(lapDataSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, lapNumber, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const laps = await f1Service.getLaps(sessionKey, driverNumber, lapNumber);
+      return {
+        summary: describeCount(laps.length, "laps", `for session ${sessionKey}`),
+        data: { laps },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getStints",
+    description: "Get tyre stints (compound, lap range, tyre age) for a session",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { stints: z.array(stintSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const stints = await f1Service.getStints(sessionKey, driverNumber);
+      return {
+        summary: describeCount(stints.length, "stints", `for session ${sessionKey}`),
+        data: { stints },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getIntervals",
+    description: "Get gaps to the leader and to the car ahead during a race (about every 4 seconds)",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { intervals: z.array(intervalSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const intervals = await f1Service.getIntervals(sessionKey, driverNumber);
+      return {
+        summary: describeCount(intervals.length, "interval samples", `for session ${sessionKey}`),
+        data: { intervals },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getSessionDrivers",
+    description: "Get the drivers entered in a session with their number, acronym and team",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { drivers: z.array(sessionDriverSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const drivers = await f1Service.getSessionDrivers(sessionKey, driverNumber);
+      return {
+        summary: describeCount(drivers.length, "drivers", `in session ${sessionKey}`),
+        data: { drivers },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getPositions",
+    description: "Get every change in running position during a session",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { positions: z.array(trackPositionSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const positions = await f1Service.getPositions(sessionKey, driverNumber);
+      return {
+        summary: describeCount(positions.length, "position changes", `for session ${sessionKey}`),
+        data: { positions },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getMeetings",
+    description: "Get OpenF1 meetings (Grand Prix weekends and tests) with their meeting keys",
+    inputSchema: {
+      year: z.number().optional(),
+      meetingKey: z.string().optional(),
+      countryName: z.string().optional().describe('Country name (e.g., "Italy")'),
+    },
+    outputSchema: { meetings: z.array(meetingSchema) },
+    handler: async ({ year, meetingKey, countryName }) => {
+      const meetings = await f1Service.getMeetings({
+        year,
+        meeting_key: meetingKey,
+        country_name: countryName,
+      });
+      return {
+        summary: describeCount(meetings.length, "meetings", year ? `in ${year}` : undefined),
+        data: { meetings },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getLocationData",
+    description: "Get a driver's x/y/z car coordinates on track; pass a date window to keep the response small",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().describe('Driver number, acronym or name (e.g., "1", "VER")'),
+      dateFrom: z.string().optional().describe('ISO timestamp, only samples at or after this time'),
+      dateTo: z.string().optional().describe('ISO timestamp, only samples at or before this time'),
+    },
+    outputSchema: { locations: z.array(locationSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, dateFrom, dateTo, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const locations = await f1Service.getLocationData(sessionKey, driverNumber, dateFrom, dateTo);
+      return {
+        summary: describeCount(locations.length, "location samples", `for driver ${driverNumber} in session ${sessionKey}`),
+        data: { locations },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getSessionResults",
+    description: "Get the final classification of a session (race, sprint, qualifying or practice)",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { results: z.array(sessionResultSchema) },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const results = await f1Service.getSessionResults(sessionKey, driverNumber);
+      return {
+        summary: describeCount(results.length, "classified drivers", `in session ${sessionKey}`),
+        data: { results },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getStartingGrid",
+    description: "Get the starting grid for a race or sprint session",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+    },
+    outputSchema: { grid: z.array(startingGridSchema) },
+    handler: async (lookup) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const grid = await f1Service.getStartingGrid(sessionKey);
+      return {
+        summary: describeCount(grid.length, "grid slots", `for session ${sessionKey}`),
+        data: { grid },
+      };
+    },
+  }),
+
+  // Ergast API tools
+  defineTool({
+    name: "getRaceCalendar",
+    description: "Get F1 race calendar",
+    inputSchema: {
+      year: z.number(),
+    },
+    outputSchema: { races: z.array(raceSchema), paging: pagingSchema },
+    handler: async ({ year }) => {
+      const { data: races, paging } = await f1Service.getRaceCalendar(year);
+      return {
+        summary: describeCount(races.length, "rounds", `in the ${year} calendar`) + describeTruncation(paging),
+        data: { races, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getCircuitInfo",
+    description: "Get circuit information",
+    inputSchema: {
+      circuitId: z.string(),
+    },
+    outputSchema: { circuit: circuitSchema.nullable() },
+    handler: async ({ circuitId: circuitIdQuery }) => {
+      const circuitId = await entityResolver.resolveCircuitId(circuitIdQuery);
+      const circuit = (await f1Service.getCircuitInfo(circuitId)) ?? null;
+      return {
+        summary: circuit
+          ? `${circuit.circuitName} (${circuit.Location?.locality}, ${circuit.Location?.country})`
+          : `No circuit found with ID: ${circuitId}`,
+        data: { circuit },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getSeasonList",
+    description: "Get list of F1 seasons",
+    inputSchema: {
+      limit: z.number().optional(),
+    },
+    outputSchema: { seasons: z.array(seasonSchema), paging: pagingSchema },
+    handler: async ({ limit }) => {
+      const { data: seasons, paging } = await f1Service.getSeasonList(limit);
+      return {
+        summary: describeCount(seasons.length, "seasons") + describeTruncation(paging),
+        data: { seasons, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getQualifyingResults",
+    description: "Get qualifying results",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: { race: raceSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round }) => {
+      const { data: race = null, paging } = await f1Service.getQualifyingResults(year, round);
+      return {
+        summary: race
+          ? `${race.season} ${race.raceName}: ${race.QualifyingResults?.length ?? 0} qualifying results`
+          : `No qualifying results for ${year} round ${round}`,
+        data: { race, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getSprintResults",
+    description: "Get sprint race results for a sprint weekend",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: { race: raceSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round }) => {
+      const { data: race = null, paging } = await f1Service.getSprintResults(year, round);
+      return {
+        summary: race
+          ? `${race.season} ${race.raceName} sprint: ${race.SprintResults?.length ?? 0} classified results`
+          : `No sprint results for ${year} round ${round} (not a sprint weekend?)`,
+        data: { race, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getSprintQualifyingResults",
+    description: "Get sprint shootout / sprint qualifying results (2023 onwards, via OpenF1)",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: {
+      session: historicalSessionSchema.nullable(),
+      results: z.array(sessionResultSchema),
+    },
+    handler: async ({ year, round }) => {
+      const { session, results } = await f1Service.getSprintQualifyingResults(year, round);
+      return {
+        summary: session
+          ? describeCount(results.length, "results", `for ${session.session_name} at ${session.location} ${year}`)
+          : `No sprint qualifying session for ${year} round ${round} (not a sprint weekend, or before 2023)`,
+        data: { session, results },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getRaceWeekendSummary",
+    description: "Get points scored by each driver over a race weekend, including sprint points",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: { weekend: raceWeekendSchema.nullable() },
+    handler: async ({ year, round }) => {
+      const weekend = (await f1Service.getRaceWeekendSummary(year, round)) ?? null;
+      const top = weekend?.points[0];
+      return {
+        summary: weekend && top
+          ? `${weekend.season} ${weekend.raceName}${weekend.sprintWeekend ? " (sprint weekend)" : ""}: ` +
+            `top scorer ${top.name} with ${top.totalPoints} pts (${top.racePoints} race + ${top.sprintPoints} sprint)`
+          : `No results for ${year} round ${round}`,
+        data: { weekend },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getHistoricPitStops",
+    description: "Get pit stops for a historical race from Ergast (2011 onwards), optionally for one driver",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+      driverId: z.string().optional(),
+    },
+    outputSchema: { race: raceSchema.nullable(), paging: pagingSchema },
+    handler: async ({ year, round, driverId: driverIdQuery }) => {
+      const driverId = driverIdQuery ? await entityResolver.resolveDriverId(driverIdQuery, year) : undefined;
+      const { data: race = null, paging } = await f1Service.getHistoricPitStops(year, round, driverId);
+      return {
+        summary: race
+          ? describeCount(race.PitStops?.length ?? 0, "pit stops", `at the ${race.season} ${race.raceName}`)
+          : `No pit stop data for ${year} round ${round}`,
+        data: { race, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getFinishingStatus",
+    description: "Get counts of each finishing status (finished, lapped, retirements by cause) for a season or round",
+    inputSchema: {
+      year: z.number(),
+      round: z.number().optional(),
+    },
+    outputSchema: { statuses: z.array(statusSchema), paging: pagingSchema },
+    handler: async ({ year, round }) => {
+      const { data: statuses, paging } = await f1Service.getFinishingStatus(year, round);
+      return {
+        summary: describeCount(statuses.length, "finishing statuses", round ? `for ${year} round ${round}` : `for ${year}`),
+        data: { statuses, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getDriverSeasonResults",
+    description: "Get every race result for one driver in a season",
+    inputSchema: {
+      year: z.number(),
+      driverId: z.string(),
+    },
+    outputSchema: { races: z.array(raceSchema), paging: pagingSchema },
+    handler: async ({ year, driverId: driverIdQuery }) => {
+      const driverId = await entityResolver.resolveDriverId(driverIdQuery, year);
+      const { data: races, paging } = await f1Service.getDriverSeasonResults(year, driverId);
+      const points = races.reduce((total, race) => total + (race.Results?.[0]?.points ?? 0), 0);
+      return {
+        summary: races.length === 0
+          ? describeCount(0, "results", `for ${driverId} in ${year}`)
+          : `${races.length} races for ${driverId} in ${year}, ${points} points from Grands Prix${describeTruncation(paging)}`,
+        data: { races, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getConstructorSeasonResults",
+    description: "Get every race result for one constructor's cars in a season",
+    inputSchema: {
+      year: z.number(),
+      constructorId: z.string(),
+    },
+    outputSchema: { races: z.array(raceSchema), paging: pagingSchema },
+    handler: async ({ year, constructorId: constructorIdQuery }) => {
+      const constructorId = await entityResolver.resolveConstructorId(constructorIdQuery, year);
+      const { data: races, paging } = await f1Service.getConstructorSeasonResults(year, constructorId);
+      return {
+        summary: describeCount(races.length, "races", `for ${constructorId} in ${year}`) + describeTruncation(paging),
+        data: { races, paging },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getDriverInformation",
+    description: "Get driver information",
+    inputSchema: {
+      driverId: z.string(),
+    },
+    outputSchema: { driver: driverSchema },
+    handler: async ({ driverId: driverIdQuery }) => {
+      const driverId = await entityResolver.resolveDriverId(driverIdQuery);
+      const driver = await f1Service.getDriverInformation(driverId);
+      return {
+        summary: `${driver.givenName} ${driver.familyName} (${driver.nationality})`,
+        data: { driver },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getConstructorInformation",
+    description: "Get constructor information",
+    inputSchema: {
+      constructorId: z.string(),
+    },
+    outputSchema: { constructor: constructorSchema.nullable() },
+    handler: async ({ constructorId: constructorIdQuery }) => {
+      const constructorId = await entityResolver.resolveConstructorId(constructorIdQuery);
+      const constructor = (await f1Service.getConstructorInformation(constructorId)) ?? null;
+      return {
+        summary: constructor
+          ? `${constructor.name} (${constructor.nationality})`
+          : `No constructor found with ID: ${constructorId}`,
+        data: { constructor },
+      };
+    },
+  }),
+
+  // Analysis tools
+  defineTool({
+    name: "compareDrivers",
+    description: "Compare two drivers in one session: lap and sector deltas, speed traps, tyre stints and the gap between them lap by lap",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverA: z.string().describe('First driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+      driverB: z.string().describe('Second driver number, acronym or name'),
+    },
+    outputSchema: { comparison: telemetryDataSchema },
+    handler: async ({ driverA: driverAQuery, driverB: driverBQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const [driverA, driverB] = await Promise.all([
+        resolveDriverNumber(driverAQuery, sessionKey),
+        resolveDriverNumber(driverBQuery, sessionKey),
+      ]);
+      const comparison = await f1Analysis.compareDrivers(sessionKey, driverA, driverB);
+      const laps = comparison.lap_numbers.length;
+      const average = laps > 0
+        ? comparison.lap_deltas.reduce((total, delta) => total + delta, 0) / laps
+        : 0;
+      return {
+        summary: laps > 0
+          ? `#${driverA} vs #${driverB} over ${laps} common laps: ${average >= 0 ? "+" : ""}${average.toFixed(3)}s per lap on average`
+          : `No common timed laps for #${driverA} and #${driverB} in session ${sessionKey}`,
+        data: { comparison },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "analyzeQualifying",
+    description: "Analyze a qualifying session: Q1/Q2 cut-off margins, sector bests, theoretical best laps, track evolution and who improved on their final run",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: { analysis: qualifyingDataSchema },
+    handler: async ({ year, round }) => {
+      const analysis = await f1Analysis.analyzeQualifying(year, round);
+      const cutoffs = analysis.cutoffs
+        .map(cutoff => `${cutoff.segment} cut-off margin ${cutoff.margin.toFixed(3)}s`)
+        .join(", ");
+      return {
+        summary: `${analysis.season} ${analysis.race_name} qualifying: ${analysis.drivers.length} drivers` +
+          (analysis.pole_margin !== null ? `, pole by ${analysis.pole_margin.toFixed(3)}s` : "") +
+          (cutoffs ? `, ${cutoffs}` : "") +
+          (analysis.session_key === null ? " (no OpenF1 lap data for this session)" : ""),
+        data: { analysis },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "analyzeStints",
+    description: "Model tyre stints for a session: clean-lap pace, fuel-corrected pace and degradation (seconds per lap) per stint and per compound, excluding in/out laps, safety car periods and traffic",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+      driverNumber: z.string().optional().describe('Filter by driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+    },
+    outputSchema: { analysis: stintAnalysisSchema },
+    handler: async ({ driverNumber: driverNumberQuery, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const analysis = await f1Analysis.analyzeStints(sessionKey, driverNumber);
+      const compounds = analysis.compounds
+        .filter(compound => compound.degradation !== null)
+        .map(compound => `${compound.compound} ${compound.degradation! >= 0 ? "+" : ""}${compound.degradation!.toFixed(3)}s/lap`)
+        .join(", ");
+      return {
+        summary: describeCount(analysis.stints.length, "stints", `for session ${sessionKey}`) +
+          (compounds ? `; degradation ${compounds}` : ""),
+        data: { analysis },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "simulateStrategy",
+    description: "Simulate alternative pit strategies for a driver in a race (e.g., would a one-stop have worked?) using the race's tyre degradation and pit loss, with projected finish time and position against what actually happened",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Race session key from getHistoricalSessions, or use year with round/event'),
+      ...sessionLookupShape,
+      driverNumber: z.string().describe('Driver number, acronym or name (e.g., "1", "VER", "Verstappen")'),
+      strategies: z.array(z.object({
+        compounds: z.array(z.string()).min(1).describe('Compounds in stint order (e.g., ["MEDIUM", "HARD"])'),
+        pit_laps: z.array(z.number()).optional().describe('Lap of each stop; the fastest laps are chosen when omitted'),
+      })).optional().describe('Strategies to evaluate; defaults to every one- and two-stop plan over the dry compounds used in the race'),
+    },
+    outputSchema: { simulation: strategySimulationSchema },
+    handler: async ({ driverNumber: driverNumberQuery, strategies, ...lookup }) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const driverNumber = await resolveDriverNumber(driverNumberQuery, sessionKey);
+      const simulation = await f1Analysis.simulateStrategy(sessionKey, driverNumber, strategies);
+      const [best] = simulation.alternatives;
+      return {
+        summary: best
+          ? `Best of ${simulation.alternatives.length} strategies for #${driverNumber}: ${best.compounds.join("-")} ` +
+            `(pit laps ${best.pit_laps.join(", ") || "none"}), ${best.time_delta >= 0 ? "+" : ""}${best.time_delta.toFixed(1)}s vs the actual ` +
+            `${simulation.actual.compounds.join("-")}` +
+            (best.projected_position !== null ? `, projected P${best.projected_position}` : "")
+          : `No dry-compound strategies to simulate for #${driverNumber} in session ${sessionKey}`,
+        data: { simulation },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "analyzeUndercuts",
+    description: "Find undercut and overcut attempts in a race: drivers battling when one pitted, the gap before and after the pit cycle, and whether the undercut or overcut worked",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Race session key from getHistoricalSessions, or use year with round/event'),
+      ...sessionLookupShape,
+    },
+    outputSchema: { analysis: pitCycleAnalysisSchema },
+    handler: async (lookup) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const analysis = await f1Analysis.analyzeUndercuts(sessionKey);
+      return {
+        summary: describeCount(analysis.battles.length, "pit cycle battles", `for session ${sessionKey}`) +
+          (analysis.battles.length > 0
+            ? `: ${analysis.undercuts} successful undercuts, ${analysis.overcuts} successful overcuts, ${analysis.neutral} neutral`
+            : ""),
+        data: { analysis },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getSessionTimeline",
+    description: "Get a session's flag timeline (green, sector yellows, VSC, safety car, red flag, chequered) with start/end times and laps, plus investigations and penalties grouped by driver",
+    inputSchema: {
+      sessionKey: z.string().optional().describe('Session key from getHistoricalSessions, or use year with round/event and session'),
+      ...sessionLookupShape,
+    },
+    outputSchema: { timeline: sessionTimelineSchema },
+    handler: async (lookup) => {
+      const sessionKey = await requireSessionKey(lookup);
+      const timeline = await f1Analysis.getSessionTimeline(sessionKey);
+      const count = (type: string) => timeline.periods.filter(period => period.type === type).length;
+      return {
+        summary: describeCount(timeline.periods.length, "timeline periods", `for session ${sessionKey}`) +
+          (timeline.periods.length > 0
+            ? `: ${count("sc")} safety cars, ${count("vsc")} VSCs, ${count("red")} red flags; ` +
+              `${timeline.drivers.length} drivers with stewarding incidents`
+            : ""),
+        data: { timeline },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getPositionChart",
+    description: "Get every driver's position lap by lap through a race (for position charts), plus the position changes split into on-track overtakes, pit stops and retirements",
+    inputSchema: {
+      year: z.number(),
+      round: z.number(),
+    },
+    outputSchema: { chart: positionChartSchema },
+    handler: async ({ year, round }) => {
+      const chart = await f1Analysis.getPositionChart(year, round);
+      const count = (type: string) => chart.changes.filter(change => change.type === type).length;
+      return {
+        summary: `${year} round ${round}: positions for ${chart.drivers.length} drivers over ${chart.laps.length - 1} laps ` +
+          `(${chart.source}); ${count("overtake")} overtakes, ${count("pit_stop")} pit stop position changes, ` +
+          `${count("retirement")} retirements`,
+        data: { chart },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getChampionshipScenarios",
+    description: "Work out who can still win the drivers' or constructors' title, what the leader needs to clinch it at the next round, and title odds from a Monte-Carlo projection of recent finishing positions, under the season's points system (fastest-lap and sprint points included)",
+    inputSchema: {
+      year: z.number(),
+      round: z.number().optional().describe("Project from the standings after this round (defaults to the latest)"),
+      championship: z.enum(["drivers", "constructors"]).optional().describe('"drivers" (default) or "constructors"'),
+      contender: z.string().optional().describe("Driver or constructor to focus the summary on (name, code, number or ID)"),
+      simulations: z.number().int().min(100).max(100000).optional().describe("Monte-Carlo runs (default 10000)"),
+    },
+    outputSchema: { scenarios: championshipScenariosSchema },
+    handler: async ({ year, round, championship = "drivers", contender: query, simulations }) => {
+      const contenderId = query
+        ? championship === "drivers"
+          ? await entityResolver.resolveDriverId(query, year)
+          : await entityResolver.resolveConstructorId(query, year)
+        : undefined;
+      const scenarios = await f1Analysis.getChampionshipScenarios(year, championship, round, simulations);
+      const leader = scenarios.contenders[0];
+      const percent = (probability: number) => `${Math.round(probability * 1000) / 10}%`;
+
+      let summary: string;
+      const contender = scenarios.contenders.find(entry => entry.id === contenderId);
+      if (contenderId && !contender) {
+        summary = `${contenderId} is not in the ${year} ${championship} standings`;
+      } else if (contender) {
+        summary = `${contender.name} has ${contender.points} points after round ${scenarios.round} and ` +
+          (contender.can_win
+            ? `can still win the ${year} title (up to ${contender.max_points} against ${leader.name}'s ${leader.points}); `
+            : `can no longer win the ${year} title (at most ${contender.max_points} against ${leader.name}'s ${leader.points}); `) +
+          `title probability ${percent(contender.title_probability)}`;
+      } else if (scenarios.decided) {
+        summary = `${leader.name} has won the ${year} ${championship} title (${leader.points} points after round ${scenarios.round})`;
+      } else {
+        const next = scenarios.next_round;
+        summary = `${year} ${championship} title after round ${scenarios.round}: ${leader.name} leads on ${leader.points} ` +
+          `with ${scenarios.points_available} points left; ` +
+          `${scenarios.contenders.filter(entry => entry.can_win).length} can still win, ` +
+          `${leader.name} ${percent(leader.title_probability)} in ${scenarios.simulations} simulations` +
+          (next?.leader_can_clinch ? `; can clinch at ${next.race_name}` : "");
+      }
+      return { summary, data: { scenarios } };
+    },
+  }),
+
+  defineTool({
+    name: "recomputeStandings",
+    description: "Re-score a season under another season's points rules (e.g. 2024 with 1988's 9-6-4-3-2-1 and best 11 results) for what-if comparisons, covering shared drives, dropped results, fastest-lap and sprint points and shortened races",
+    inputSchema: {
+      year: z.number().describe("Season to re-score"),
+      system: z.number().describe("Season whose points rules to apply (e.g., 1988, 2003, 2010)"),
+      championship: z.enum(["drivers", "constructors"]).optional().describe('"drivers" (default) or "constructors"'),
+    },
+    outputSchema: { standings: recomputedStandingsSchema },
+    handler: async ({ year, system, championship = "drivers" }) => {
+      const standings = await f1Analysis.recomputeStandings(year, system, championship);
+      const [first] = standings.standings;
+      const changed = standings.actual_champion !== null && standings.actual_champion !== standings.champion;
+      return {
+        summary: `${year} ${championship} standings under ${system} rules (${standings.points_system}): ` +
+          (first ? `${first.name} first on ${first.points} points` : "no scorers") +
+          (changed ? ` instead of ${standings.actual_champion}` : standings.actual_champion ? ", same champion" : "") +
+          `; ${standings.standings.filter(entry => entry.position_change).length} positions changed`,
+        data: { standings },
+      };
+    },
+  }),
+
+  // Warehouse tools (require POSTGRES_ENABLED)
+  defineTool({
+    name: "ingestSeason",
+    description: "Ingest a season, or one round, into the Postgres warehouse: the Ergast calendar with race, sprint and qualifying results, and ended OpenF1 sessions with drivers, laps, stints, pit stops, weather and race control. Re-ingesting replaces what is stored",
+    inputSchema: {
+      year: z.number().min(1950).describe("Season to ingest"),
+      round: z.number().optional().describe("Only ingest this round"),
+      sources: z.array(z.enum(["ergast", "openf1"])).min(1).optional()
+        .describe('Defaults to ["ergast", "openf1"] from 2023 and ["ergast"] before'),
+    },
+    outputSchema: { report: ingestionReportSchema },
+    handler: async ({ year, round, sources }) => {
+      const report = await warehouse.ingestSeason(year, { round, sources });
+      const rows = Object.values(report.rows).reduce((sum, count) => sum + count, 0);
+      const failed = report.failures.map(failure => failure.scope).join(", ");
+      return {
+        summary: `Ingested ${year}${round !== undefined ? ` round ${round}` : ""} into the warehouse: ` +
+          `results for ${report.rounds} rounds and ${report.sessions} OpenF1 sessions, ${rows} rows written` +
+          (report.failures.length > 0 ? `; ${report.failures.length} failed (${failed}), run again to retry` : ""),
+        data: { report },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getWarehouseStatus",
+    description: "Get the Postgres warehouse schema version, row counts per table, and the rounds and sessions stored for each season",
+    inputSchema: {},
+    outputSchema: { status: warehouseStatusSchema },
+    handler: async () => {
+      const status = await warehouse.getStatus();
+      const seasons = status.seasons
+        .map(season => `${season.year} (${season.rounds_with_results}/${season.rounds} rounds, ${season.sessions} sessions)`)
+        .join(", ");
+      return {
+        summary: `Warehouse schema v${status.schema_version}: ` +
+          (seasons ? `seasons ${seasons}` : "nothing ingested yet, use ingestSeason"),
+        data: { status },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getStoredResults",
+    description: "Get race, sprint or qualifying results from the Postgres warehouse, in the same shape as the Ergast tools, without calling the upstream API",
+    inputSchema: {
+      year: z.number().describe("Season"),
+      round: z.number().optional().describe("Round number; omit for every stored round"),
+      session: z.enum(["race", "sprint", "qualifying"]).optional().describe('Defaults to "race"'),
+      driverId: z.string().optional().describe("Ergast driver ID (e.g., 'hamilton')"),
+    },
+    outputSchema: { races: z.array(raceSchema) },
+    handler: async ({ year, round, session = "race", driverId }) => {
+      const races = await warehouse.getResults(year, { round, session, driverId });
+      const rows = races.reduce(
+        (sum, race) => sum + (race.Results ?? race.SprintResults ?? race.QualifyingResults ?? []).length,
+        0
+      );
+      return {
+        summary: races.length > 0
+          ? `${rows} stored ${session} results across ${races.length} rounds of ${year}`
+          : `No stored ${session} results for ${year}${round !== undefined ? ` round ${round}` : ""}. Ingest them first with ingestSeason.`,
+        data: { races },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "getStoredSessionData",
+    description: "Get an OpenF1 session's drivers, laps, stints, pit stops, weather and race control from the Postgres warehouse, in the same shapes as the OpenF1 tools, without calling the upstream API",
+    inputSchema: {
+      sessionKey: z.string().optional().describe("Session key, or use year with round and session"),
+      year: z.number().optional().describe("Season, used with round when sessionKey is omitted"),
+      round: z.number().optional().describe("Round number within the season"),
+      session: z.string().optional().describe('"Race" (default), "Qualifying", "Sprint", "Sprint Qualifying", "FP1", "FP2" or "FP3"'),
+      driverNumber: z.string().optional().describe('Driver number, acronym or surname (e.g., "1", "VER"); narrows drivers, laps, stints and pit stops'),
+      datasets: z.array(z.enum(["drivers", "laps", "stints", "pit_stops", "weather", "race_control"])).min(1).optional()
+        .describe("Datasets to return (defaults to all)"),
+    },
+    outputSchema: {
+      session: historicalSessionSchema,
+      meeting: meetingSchema,
+      drivers: z.array(sessionDriverSchema).optional(),
+      laps: z.array(lapDataSchema).optional(),
+      stints: z.array(stintSchema).optional(),
+      pit_stops: z.array(pitSchema).optional(),
+      weather: z.array(weatherSchema).optional(),
+      race_control: z.array(raceControlSchema).optional(),
+    },
+    handler: async ({ sessionKey, year, round, session: sessionName, driverNumber, datasets }) => {
+      const { session, meeting } = await warehouse.findSession({ sessionKey, year, round, session: sessionName });
+      const data = await warehouse.getSessionData(session, datasets, driverNumber);
+      const counts = Object.entries(data).map(([dataset, rows]) => `${rows.length} ${dataset.replace("_", " ")}`);
+      return {
+        summary: `${meeting.meeting_name} ${session.year} ${session.session_name} (session_key ${session.session_key}) ` +
+          `from the warehouse: ${counts.join(", ")}`,
+        data: { session, meeting, ...data },
+      };
+    },
+  }),
+
+  // Utility tools
+  defineTool({
+    name: "resolveSession",
+    description: "Find the OpenF1 session_key and meeting_key for a session described by year, round or event name, and session type",
+    inputSchema: {
+      year: z.number().describe("Season (2023 onwards)"),
+      round: z.number().optional().describe("Round number within the season"),
+      event: z.string().optional().describe('Event name, country or circuit (e.g., "Monza", "Italian Grand Prix")'),
+      session: z.string().optional().describe('"Race" (default), "Qualifying", "Sprint", "Sprint Qualifying", "FP1", "FP2" or "FP3"'),
+    },
+    outputSchema: { session: historicalSessionSchema, meeting: meetingSchema },
+    handler: async ({ year, round, event, session: sessionName }) => {
+      const { session, meeting } = await sessionResolver.resolveSession({ year, round, event, session: sessionName });
+      return {
+        summary: `${meeting.meeting_name} ${session.year} ${session.session_name}: session_key ${session.session_key}, meeting_key ${meeting.meeting_key}`,
+        data: { session, meeting },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "resolveEntity",
+    description: "Resolve free text (a name, code, number or ID) to drivers, constructors or circuits, with both Ergast IDs and OpenF1 numbers",
+    inputSchema: {
+      query: z.string().describe('e.g., "Max", "VER", "33", "Red Bull", "Monza"'),
+      type: z.enum(["driver", "constructor", "circuit"]).optional(),
+      year: z.number().optional().describe("Season to resolve against (defaults to the current season)"),
+    },
+    outputSchema: { matches: z.array(entityMatchSchema) },
+    handler: async ({ query, type, year }) => {
+      const matches = (await entityResolver.resolve(query, { type, year })).slice(0, 10);
+      const best = matches[0]?.entity;
+      return {
+        summary: best
+          ? `"${query}" resolves to ${best.type} ${best.name}` + (matches.length > 1 ? ` (${matches.length - 1} other candidates)` : "")
+          : `No driver, constructor or circuit matches "${query}"`,
+        data: { matches },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "clearCache",
+    description: "Clear server cache",
+    inputSchema: {},
+    outputSchema: { cleared: z.boolean() },
+    handler: async () => {
+      await f1Service.clearCache();
+      return { summary: "Cache cleared successfully", data: { cleared: true } };
+    },
+  }),
+
+  defineTool({
+    name: "getCacheStats",
+    description: "Get response cache statistics: hits per tier, misses, hit rate and writes for immutable (past seasons, ended sessions) and volatile responses, plus entry counts in memory and in the persistent backend (Redis or disk) and the size of the file cache",
+    inputSchema: {},
+    outputSchema: { stats: cacheStatsSchema },
+    handler: async () => {
+      const stats = await responseCache.getStats();
+      const rate = stats.hit_rate !== null ? `${Math.round(stats.hit_rate * 1000) / 10}% hit rate` : "no lookups yet";
+      // Redis holds volatile responses too; the file backend only keeps immutable ones
+      const persistent = stats.backend === "redis"
+        ? `${stats.persistent_entries} entries in redis`
+        : `${stats.persistent_entries} immutable entries on disk`;
+      return {
+        summary: `${stats.backend} cache${stats.enabled ? "" : " (disabled)"}: ${rate} ` +
+          `(${stats.hits.memory} memory hits, ${stats.hits.persistent} persistent hits, ${stats.misses} misses); ` +
+          `${stats.memory_entries} entries in memory` +
+          (stats.persistent_entries !== null ? `, ${persistent}` : ""),
+        data: { stats },
+      };
+    },
+  }),
+
+  // Live streaming tools
+  defineTool({
+    name: "getLiveCarData",
+    description: "Get live car telemetry for the current session",
+    inputSchema: {},
+    outputSchema: { telemetry: z.array(carDataSchema) },
+    handler: async () => {
+      const telemetry = await f1Service.getLiveCarData();
+      return { summary: describeLiveCount(telemetry.length, "telemetry samples"), data: { telemetry } };
+    },
+  }),
+
+  defineTool({
+    name: "getLivePositions",
+    description: "Get live track positions for the current session",
+    inputSchema: {},
+    outputSchema: { positions: z.array(trackPositionSchema) },
+    handler: async () => {
+      const positions = await f1Service.getLivePositions();
+      return { summary: describeLiveCount(positions.length, "positions"), data: { positions } };
+    },
+  }),
+
+  defineTool({
+    name: "getLiveRaceControl",
+    description: "Get live race control messages for the current session",
+    inputSchema: {},
+    outputSchema: { messages: z.array(raceControlSchema) },
+    handler: async () => {
+      const messages = await f1Service.getLiveRaceControl();
+      return { summary: describeLiveCount(messages.length, "race control messages"), data: { messages } };
+    },
+  }),
+
+  defineTool({
+    name: "getLiveTeamRadio",
+    description: "Get live team radio for the current session",
+    inputSchema: {},
+    outputSchema: { radio: z.array(teamRadioSchema) },
+    handler: async () => {
+      const radio = await f1Service.getLiveTeamRadio();
+      return { summary: describeLiveCount(radio.length, "team radio messages"), data: { radio } };
+    },
+  }),
+
+  defineTool({
+    name: "getLiveWeather",
+    description: "Get live weather for the current session",
+    inputSchema: {},
+    outputSchema: { weather: weatherSchema.nullable() },
+    handler: async () => {
+      // Service returns null if no live data, which is valid
+      const weather = await f1Service.getLiveWeather();
+      return {
+        summary: weather
+          ? `Air ${weather.air_temperature}°C, track ${weather.track_temperature}°C, rainfall ${weather.rainfall}`
+          : `No live weather data available. ${NO_LIVE_DATA_HINT}`,
+        data: { weather },
+      };
+    },
+  }),
+];
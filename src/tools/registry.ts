@@ -0,0 +1,69 @@
+/**
+ * Declarative tool registry shared by every MCP transport
+ * A tool is defined once (name, description, zod input/output shapes, handler)
+ * and registered on each McpServer instance, whether it is served over stdio
+ * or a Streamable HTTP session
+ */
+
+import { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
+import { logger } from "../utils/logger.js";
+import { toolDefinitions } from "./definitions.js";
+import { ToolDefinition, ToolOutput } from "./types.js";
+
+/**
+ * Build a tool result with a text summary, the serialized JSON (for clients
+ * without structured output support) and the structured content itself
+ */
+function toCallToolResult(output: ToolOutput<Record<string, unknown>>): CallToolResult {
+  return {
+    content: [
+      { type: "text", text: output.summary },
+      { type: "text", text: JSON.stringify(output.data) },
+    ],
+    structuredContent: output.data,
+  };
+}
+
+function toErrorResult(name: string, error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error(`${name} error`, { error: message });
+  return {
+    content: [{ type: "text", text: `${name} failed: ${message}` }],
+    isError: true,
+  };
+}
+
+function registerTool<Shape extends ZodRawShape, OutputShape extends ZodRawShape>(
+  mcpServer: McpServer,
+  tool: ToolDefinition<Shape, OutputShape>
+): void {
+  const callback = async (args: z.objectOutputType<Shape, z.ZodTypeAny>): Promise<CallToolResult> => {
+    try {
+      return toCallToolResult(await tool.handler(args));
+    } catch (error) {
+      return toErrorResult(tool.name, error);
+    }
+  };
+  mcpServer.registerTool(
+    tool.name,
+    {
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+    },
+    // ToolCallback<Shape> is a conditional type that TypeScript cannot resolve
+    // for a generic shape; it takes exactly the arguments of `callback`
+    callback as unknown as ToolCallback<Shape>
+  );
+}
+
+/**
+ * Register every tool from the registry on an McpServer instance
+ */
+export function registerTools(mcpServer: McpServer): void {
+  for (const withDefinition of toolDefinitions) {
+    withDefinition(tool => registerTool(mcpServer, tool));
+  }
+}
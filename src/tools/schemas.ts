@@ -0,0 +1,615 @@
+/**
+ * Zod output schemas for OpenF1, entity resolver and analysis tool results
+ * (Ergast results use the domain model in interfaces/ergast.interface.ts)
+ * Each schema is annotated with the matching interface from f1-data.service.ts,
+ * so the compiler keeps the declared `outputSchema` and the `structuredContent`
+ * returned by the service in sync. Objects are passthrough so extra upstream
+ * fields are preserved rather than rejected.
+ */
+
+import { z } from "zod";
+import {
+  CarData,
+  HistoricalSessionData,
+  IntervalData,
+  LapData,
+  LiveTimingData,
+  LocationData,
+  MeetingData,
+  PitData,
+  RaceControlData,
+  SessionData,
+  SessionDriverData,
+  SessionResultData,
+  StartingGridData,
+  StintData,
+  TeamRadioData,
+  TrackPositionData,
+  WeatherData,
+} from "../services/f1-data.service.js";
+import { EntityMatch } from "../services/entity-resolver.service.js";
+import { CacheStats } from "../storage/cache-types.js";
+import { IngestionReport, WarehouseStatus } from "../storage/warehouse-types.js";
+import {
+  ChampionshipScenarios,
+  CompoundDegradation,
+  CompoundModel,
+  PitCycleAnalysis,
+  PitCycleBattle,
+  PositionChart,
+  QualifyingCutoff,
+  QualifyingData,
+  RecomputedStandings,
+  QualifyingDriverAnalysis,
+  SessionTimeline,
+  SimulatedStrategy,
+  StintAnalysis,
+  StintTireData,
+  StrategySimulation,
+  TelemetryData,
+  TelemetryDetail,
+  TireData,
+  TyreStrategyData,
+} from "../interfaces/f1-data.interface.js";
+
+export const historicalSessionSchema: z.ZodType<HistoricalSessionData> = z.object({
+  circuit_key: z.number(),
+  circuit_short_name: z.string(),
+  country_code: z.string(),
+  country_key: z.number(),
+  country_name: z.string(),
+  date_end: z.string(),
+  date_start: z.string(),
+  gmt_offset: z.string(),
+  location: z.string(),
+  meeting_key: z.number(),
+  session_key: z.number(),
+  session_name: z.string(),
+  session_type: z.string(),
+  year: z.number(),
+}).passthrough();
+
+// getCurrentSessionStatus returns an empty object when no session is active
+export const sessionSchema: z.ZodType<Partial<SessionData>> = z.object({
+  session_key: z.string(),
+  session_name: z.string(),
+  session_type: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  status: z.string(),
+}).partial().passthrough();
+
+export const liveTimingSchema: z.ZodType<LiveTimingData> = z.object({
+  date: z.string(),
+  session_status: z.string(),
+  driver_number: z.string(),
+  driver_id: z.string(),
+  lap_time: z.number(),
+  position: z.number(),
+  lap_number: z.number(),
+  sector_1_time: z.number().optional(),
+  sector_2_time: z.number().optional(),
+  sector_3_time: z.number().optional(),
+}).passthrough();
+
+export const weatherSchema: z.ZodType<WeatherData> = z.object({
+  air_temperature: z.number(),
+  track_temperature: z.number(),
+  humidity: z.number(),
+  pressure: z.number(),
+  wind_direction: z.number(),
+  wind_speed: z.number(),
+  rainfall: z.number(),
+  date: z.string(),
+}).passthrough();
+
+export const carDataSchema: z.ZodType<CarData> = z.object({
+  brake: z.number(),
+  date: z.string(),
+  driver_number: z.number(),
+  drs: z.number(),
+  n_gear: z.number(),
+  rpm: z.number(),
+  speed: z.number(),
+  throttle: z.number(),
+}).passthrough();
+
+export const pitSchema: z.ZodType<PitData> = z.object({
+  date: z.string(),
+  driver_number: z.number(),
+  pit_duration: z.number().nullable(),
+  lap_number: z.number().optional(),
+  stop_timestamp: z.string().optional(),
+  pit_type: z.string().optional(),
+}).passthrough();
+
+export const teamRadioSchema: z.ZodType<TeamRadioData> = z.object({
+  date: z.string(),
+  driver_number: z.number(),
+  recording_url: z.string(),
+}).passthrough();
+
+export const raceControlSchema: z.ZodType<RaceControlData> = z.object({
+  date: z.string(),
+  category: z.string(),
+  message: z.string(),
+  flag: z.string().nullable(),
+  scope: z.string().nullable(),
+  sector: z.number().nullable(),
+  driver_number: z.number().nullable(),
+  lap_number: z.number().nullable().optional(),
+}).passthrough();
+
+export const trackPositionSchema: z.ZodType<TrackPositionData> = z.object({
+  driver_number: z.number(),
+  position: z.number(),
+  meeting_key: z.number().optional(),
+  session_key: z.number().optional(),
+  date: z.string().optional(),
+  lap_number: z.number().optional(),
+  gap_to_leader: z.number().optional(),
+  gap_to_ahead: z.number().optional(),
+  sector: z.number().optional(),
+  timestamp: z.string().optional(),
+}).passthrough();
+
+export const sessionResultSchema: z.ZodType<SessionResultData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  position: z.number().nullable(),
+  number_of_laps: z.number(),
+  dnf: z.boolean(),
+  dns: z.boolean(),
+  dsq: z.boolean(),
+  duration: z.union([z.number(), z.array(z.number().nullable())]).nullable(),
+  gap_to_leader: z.union([
+    z.number(),
+    z.string(),
+    z.array(z.union([z.number(), z.string()]).nullable()),
+  ]).nullable(),
+}).passthrough();
+
+const segmentsSchema = z.array(z.number().nullable()).nullable().optional();
+
+export const lapDataSchema: z.ZodType<LapData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  lap_number: z.number(),
+  date_start: z.string().nullable(),
+  lap_duration: z.number().nullable(),
+  duration_sector_1: z.number().nullable(),
+  duration_sector_2: z.number().nullable(),
+  duration_sector_3: z.number().nullable(),
+  i1_speed: z.number().nullable(),
+  i2_speed: z.number().nullable(),
+  st_speed: z.number().nullable(),
+  is_pit_out_lap: z.boolean(),
+  segments_sector_1: segmentsSchema,
+  segments_sector_2: segmentsSchema,
+  segments_sector_3: segmentsSchema,
+}).passthrough();
+
+export const stintSchema: z.ZodType<StintData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  stint_number: z.number(),
+  lap_start: z.number().nullable(),
+  lap_end: z.number().nullable(),
+  compound: z.string().nullable(),
+  tyre_age_at_start: z.number().nullable(),
+}).passthrough();
+
+export const intervalSchema: z.ZodType<IntervalData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  date: z.string(),
+  gap_to_leader: z.union([z.number(), z.string()]).nullable(),
+  interval: z.union([z.number(), z.string()]).nullable(),
+}).passthrough();
+
+export const sessionDriverSchema: z.ZodType<SessionDriverData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  broadcast_name: z.string(),
+  full_name: z.string(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  name_acronym: z.string(),
+  team_name: z.string().nullable(),
+  team_colour: z.string().nullable(),
+  headshot_url: z.string().nullable(),
+  country_code: z.string().nullable(),
+}).passthrough();
+
+export const meetingSchema: z.ZodType<MeetingData> = z.object({
+  meeting_key: z.number(),
+  meeting_name: z.string(),
+  meeting_official_name: z.string(),
+  circuit_key: z.number(),
+  circuit_short_name: z.string(),
+  country_code: z.string(),
+  country_key: z.number(),
+  country_name: z.string(),
+  location: z.string(),
+  date_start: z.string(),
+  gmt_offset: z.string(),
+  year: z.number(),
+}).passthrough();
+
+export const locationSchema: z.ZodType<LocationData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  date: z.string(),
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+}).passthrough();
+
+export const startingGridSchema: z.ZodType<StartingGridData> = z.object({
+  meeting_key: z.number(),
+  session_key: z.number(),
+  driver_number: z.number(),
+  position: z.number(),
+  lap_duration: z.number().nullable(),
+}).passthrough();
+
+export const entityMatchSchema: z.ZodType<EntityMatch> = z.object({
+  entity: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("driver"),
+      season: z.number(),
+      driverId: z.string(),
+      name: z.string(),
+      code: z.string().optional(),
+      permanentNumber: z.number().optional(),
+      driverNumber: z.number().optional(),
+      constructorId: z.string().optional(),
+      teamName: z.string().optional(),
+    }),
+    z.object({
+      type: z.literal("constructor"),
+      season: z.number(),
+      constructorId: z.string(),
+      name: z.string(),
+      teamName: z.string().optional(),
+      driverNumbers: z.array(z.number()),
+    }),
+    z.object({
+      type: z.literal("circuit"),
+      season: z.number(),
+      circuitId: z.string(),
+      name: z.string(),
+      locality: z.string().optional(),
+      country: z.string().optional(),
+      round: z.number().optional(),
+      raceName: z.string().optional(),
+      circuitShortName: z.string().optional(),
+      meetingKey: z.number().optional(),
+    }),
+  ]),
+  score: z.number(),
+  matchedOn: z.string(),
+});
+
+const tireDataSchema: z.ZodType<TireData> = z.object({
+  compound: z.string(),
+  age: z.number(),
+  wear: z.number(),
+});
+
+const stintTireDataSchema: z.ZodType<StintTireData> = z.object({
+  stint_number: z.number(),
+  lap_start: z.number(),
+  lap_end: z.number(),
+  compound: z.string(),
+  age: z.number(),
+  wear: z.number(),
+});
+
+const telemetryDetailSchema: z.ZodType<TelemetryDetail> = z.object({
+  driver_number: z.number(),
+  lap_numbers: z.array(z.number()),
+  lap_times: z.array(z.number()),
+  sector_times: z.array(z.array(z.number().nullable())),
+  speed_trap: z.array(z.number()),
+  tire_data: tireDataSchema,
+  stints: z.array(stintTireDataSchema),
+});
+
+export const telemetryDataSchema: z.ZodType<TelemetryData> = z.object({
+  driver1_telemetry: telemetryDetailSchema,
+  driver2_telemetry: telemetryDetailSchema,
+  lap_numbers: z.array(z.number()),
+  lap_deltas: z.array(z.number()),
+  sector_deltas: z.array(z.number().nullable()),
+  gap_history: z.array(z.number()),
+  drs_detection: z.boolean(),
+});
+
+const qualifyingCutoffSchema: z.ZodType<QualifyingCutoff> = z.object({
+  segment: z.string(),
+  cutoff_position: z.number(),
+  cutoff_time: z.number(),
+  margin: z.number(),
+  last_through: z.string(),
+  first_out: z.string(),
+});
+
+const qualifyingDriverSchema: z.ZodType<QualifyingDriverAnalysis> = z.object({
+  driver_id: z.string(),
+  driver_number: z.string(),
+  position: z.number(),
+  best_lap: z.number().nullable(),
+  sector_bests: z.array(z.number().nullable()),
+  theoretical_best: z.number().nullable(),
+  improved_on_final_run: z.boolean().nullable(),
+  final_run_delta: z.number().nullable(),
+});
+
+export const qualifyingDataSchema: z.ZodType<QualifyingData> = z.object({
+  season: z.number(),
+  round: z.number(),
+  race_name: z.string(),
+  session_key: z.number().nullable(),
+  session_type: z.string(),
+  cutoffs: z.array(qualifyingCutoffSchema),
+  pole_margin: z.number().nullable(),
+  track_evolution: z.number().nullable(),
+  sector_improvements: z.array(z.object({
+    sector: z.number(),
+    best_time: z.number(),
+    time_delta: z.number(),
+    driver_number: z.string(),
+  })),
+  track_position_impact: z.number().nullable(),
+  drivers: z.array(qualifyingDriverSchema),
+});
+
+const tyreStrategySchema: z.ZodType<TyreStrategyData> = z.object({
+  driver_number: z.string(),
+  stint_number: z.number(),
+  compound: z.string(),
+  lap_start: z.number(),
+  lap_end: z.number(),
+  tyre_age_at_start: z.number(),
+  laps_on_tyre: z.number(),
+  clean_laps: z.number(),
+  excluded_laps: z.object({
+    in_out: z.number(),
+    neutralised: z.number(),
+    traffic: z.number(),
+    outliers: z.number(),
+  }),
+  average_time: z.number().nullable(),
+  fuel_corrected_pace: z.number().nullable(),
+  degradation: z.number().nullable(),
+});
+
+const compoundDegradationSchema: z.ZodType<CompoundDegradation> = z.object({
+  compound: z.string(),
+  stints: z.number(),
+  clean_laps: z.number(),
+  fuel_corrected_pace: z.number().nullable(),
+  degradation: z.number().nullable(),
+});
+
+export const stintAnalysisSchema: z.ZodType<StintAnalysis> = z.object({
+  session_key: z.number(),
+  total_laps: z.number(),
+  fuel_effect: z.number(),
+  stints: z.array(tyreStrategySchema),
+  compounds: z.array(compoundDegradationSchema),
+});
+
+const compoundModelSchema: z.ZodType<CompoundModel> = z.object({
+  compound: z.string(),
+  base_pace: z.number(),
+  degradation: z.number(),
+});
+
+const simulatedStrategySchema: z.ZodType<SimulatedStrategy> = z.object({
+  compounds: z.array(z.string()),
+  pit_laps: z.array(z.number()),
+  stops: z.number(),
+  modelled_time: z.number(),
+  time_delta: z.number(),
+  projected_finish_time: z.number().nullable(),
+  projected_position: z.number().nullable(),
+});
+
+export const strategySimulationSchema: z.ZodType<StrategySimulation> = z.object({
+  session_key: z.number(),
+  driver_number: z.string(),
+  total_laps: z.number(),
+  pit_loss: z.number(),
+  fuel_effect: z.number(),
+  compound_models: z.array(compoundModelSchema),
+  actual: simulatedStrategySchema,
+  alternatives: z.array(simulatedStrategySchema),
+});
+
+const pitCycleBattleSchema: z.ZodType<PitCycleBattle> = z.object({
+  cycle: z.number(),
+  attacker: z.string(),
+  defender: z.string(),
+  first_stopper: z.string(),
+  first_stop_lap: z.number(),
+  second_stop_lap: z.number(),
+  gap_before: z.number(),
+  gap_after: z.number(),
+  outcome: z.enum(["undercut", "overcut", "neutral"]),
+  safety_car: z.boolean(),
+});
+
+export const pitCycleAnalysisSchema: z.ZodType<PitCycleAnalysis> = z.object({
+  session_key: z.number(),
+  battles: z.array(pitCycleBattleSchema),
+  undercuts: z.number(),
+  overcuts: z.number(),
+  neutral: z.number(),
+});
+
+export const sessionTimelineSchema: z.ZodType<SessionTimeline> = z.object({
+  session_key: z.number(),
+  periods: z.array(z.object({
+    type: z.enum(["green", "yellow", "double_yellow", "vsc", "sc", "red", "chequered"]),
+    start: z.string(),
+    end: z.string().nullable(),
+    start_lap: z.number().nullable(),
+    end_lap: z.number().nullable(),
+    sector: z.number().nullable(),
+    message: z.string(),
+  })),
+  drivers: z.array(z.object({
+    driver_number: z.string(),
+    incidents: z.array(z.object({
+      date: z.string(),
+      lap: z.number().nullable(),
+      type: z.enum(["investigation", "penalty", "cleared", "lap_deleted", "warning"]),
+      message: z.string(),
+    })),
+  })),
+});
+
+export const positionChartSchema: z.ZodType<PositionChart> = z.object({
+  season: z.number(),
+  round: z.number(),
+  source: z.enum(["ergast", "openf1"]),
+  session_key: z.number().nullable(),
+  laps: z.array(z.number()),
+  drivers: z.array(z.object({
+    driver_id: z.string().nullable(),
+    driver_number: z.string().nullable(),
+    positions: z.array(z.number().nullable()),
+  })),
+  changes: z.array(z.object({
+    lap: z.number(),
+    type: z.enum(["overtake", "pit_stop", "retirement"]),
+    gained: z.string().nullable(),
+    lost: z.string(),
+  })),
+});
+
+export const championshipScenariosSchema: z.ZodType<ChampionshipScenarios> = z.object({
+  season: z.number(),
+  round: z.number(),
+  championship: z.enum(["drivers", "constructors"]),
+  points_system: z.string(),
+  remaining_rounds: z.number(),
+  remaining_sprints: z.number(),
+  points_available: z.number(),
+  decided: z.boolean(),
+  leader: z.string(),
+  next_round: z.object({
+    round: z.number(),
+    race_name: z.string(),
+    sprint: z.boolean(),
+    points_available: z.number(),
+    leader_can_clinch: z.boolean(),
+    margins: z.array(z.object({
+      rival: z.string(),
+      margin: z.number(),
+    })),
+  }).nullable(),
+  simulations: z.number(),
+  form_rounds: z.array(z.number()),
+  contenders: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    position: z.number().nullable(),
+    points: z.number(),
+    wins: z.number(),
+    max_points: z.number(),
+    can_win: z.boolean(),
+    title_probability: z.number(),
+    projected_points: z.number(),
+  })),
+});
+
+export const recomputedStandingsSchema: z.ZodType<RecomputedStandings> = z.object({
+  season: z.number(),
+  championship: z.enum(["drivers", "constructors"]),
+  rules_season: z.number(),
+  points_system: z.string(),
+  dropped_results: z.array(z.number()).nullable(),
+  rounds: z.number(),
+  sprints: z.number(),
+  shortened_races: z.array(z.object({
+    round: z.number(),
+    race_name: z.string(),
+    distance: z.number(),
+  })),
+  champion: z.string(),
+  actual_champion: z.string().nullable(),
+  standings: z.array(z.object({
+    position: z.number(),
+    id: z.string(),
+    name: z.string(),
+    points: z.number(),
+    gross_points: z.number(),
+    wins: z.number(),
+    actual_position: z.number().nullable(),
+    actual_points: z.number().nullable(),
+    position_change: z.number().nullable(),
+  })),
+});
+
+const cacheClassStatsSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  writes: z.number(),
+});
+
+export const cacheStatsSchema: z.ZodType<CacheStats> = z.object({
+  enabled: z.boolean(),
+  backend: z.string(),
+  hits: z.object({
+    memory: z.number(),
+    persistent: z.number(),
+  }),
+  misses: z.number(),
+  hit_rate: z.number().nullable(),
+  by_class: z.object({
+    immutable: cacheClassStatsSchema,
+    volatile: cacheClassStatsSchema,
+  }),
+  memory_entries: z.number(),
+  persistent_entries: z.number().nullable(),
+  persistent_bytes: z.number().nullable(),
+  ended_sessions: z.number(),
+});
+
+export const ingestionReportSchema: z.ZodType<IngestionReport> = z.object({
+  season: z.number(),
+  round: z.number().nullable(),
+  sources: z.array(z.enum(["ergast", "openf1"])),
+  rounds: z.number(),
+  sessions: z.number(),
+  rows: z.record(z.number()),
+  failures: z.array(z.object({
+    scope: z.string(),
+    error: z.string(),
+  })),
+  duration_ms: z.number(),
+});
+
+export const warehouseStatusSchema: z.ZodType<WarehouseStatus> = z.object({
+  schema_version: z.number(),
+  tables: z.array(z.object({
+    table: z.string(),
+    rows: z.number(),
+  })),
+  seasons: z.array(z.object({
+    year: z.number(),
+    rounds: z.number(),
+    rounds_with_results: z.number(),
+    sessions: z.number(),
+    last_ingested_at: z.string().nullable(),
+  })),
+});
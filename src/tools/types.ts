@@ -0,0 +1,51 @@
+/**
+ * Shared types for the declarative tool registry
+ */
+
+import { z, ZodRawShape } from "zod";
+
+/**
+ * What a tool handler produces: a human-readable summary plus the
+ * structured payload validated against the tool's output schema
+ */
+export interface ToolOutput<T> {
+  summary: string;
+  data: T;
+}
+
+/**
+ * Single source of truth for a tool exposed over MCP
+ */
+export interface ToolDefinition<
+  Shape extends ZodRawShape = ZodRawShape,
+  OutputShape extends ZodRawShape = ZodRawShape
+> {
+  name: string;
+  description: string;
+  inputSchema: Shape;
+  outputSchema: OutputShape;
+  handler: (
+    args: z.objectOutputType<Shape, z.ZodTypeAny>
+  ) => Promise<ToolOutput<z.objectOutputType<OutputShape, z.ZodTypeAny>>>;
+}
+
+/**
+ * A tool definition with its schema types hidden behind a callback, so tools
+ * with different shapes can share one list while each handler stays checked
+ * against its own input and output schemas
+ */
+export type AnyToolDefinition = <R>(
+  use: <Shape extends ZodRawShape, OutputShape extends ZodRawShape>(
+    definition: ToolDefinition<Shape, OutputShape>
+  ) => R
+) => R;
+
+/**
+ * Helper that checks a tool handler against its inferred argument and output
+ * types, then wraps the definition for the registry
+ */
+export function defineTool<Shape extends ZodRawShape, OutputShape extends ZodRawShape>(
+  definition: ToolDefinition<Shape, OutputShape>
+): AnyToolDefinition {
+  return use => use(definition);
+}
@@ -0,0 +1,71 @@
+/**
+ * In-memory event store for resumable Streamable HTTP streams
+ * Keeps a bounded backlog of JSON-RPC messages per SSE stream so clients
+ * can reconnect with `Last-Event-ID` and receive what they missed.
+ * One store is created per MCP session and dropped when the session ends.
+ */
+
+import { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+  eventId: string;
+  message: JSONRPCMessage;
+}
+
+export class InMemoryEventStore implements EventStore {
+  private streams: Map<string, StoredEvent[]> = new Map();
+  private sequence = 0;
+
+  constructor(private maxEventsPerStream: number = 1000) {}
+
+  /**
+   * Event IDs are `<streamId>_<sequence>` so the stream can be recovered on replay
+   */
+  private getStreamIdFromEventId(eventId: string): string {
+    const separator = eventId.lastIndexOf('_');
+    return separator > 0 ? eventId.substring(0, separator) : '';
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${++this.sequence}`;
+    const events = this.streams.get(streamId) || [];
+
+    events.push({ eventId, message });
+
+    // Drop the oldest events once the backlog is full
+    if (events.length > this.maxEventsPerStream) {
+      events.splice(0, events.length - this.maxEventsPerStream);
+    }
+
+    this.streams.set(streamId, events);
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const streamId = this.getStreamIdFromEventId(lastEventId);
+    const events = this.streams.get(streamId);
+
+    if (!events) {
+      return '';
+    }
+
+    const index = events.findIndex(event => event.eventId === lastEventId);
+    if (index === -1) {
+      return '';
+    }
+
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+
+  clear(): void {
+    this.streams.clear();
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * MCP Streamable HTTP transport (spec 2025-03-26 / 2025-06-18)
+ * Tracks one StreamableHTTPServerTransport + McpServer pair per session:
+ * - POST   initialize without `Mcp-Session-Id` opens a new session
+ * - POST   with `Mcp-Session-Id` sends JSON-RPC messages to that session
+ * - GET    with `Mcp-Session-Id` opens the server-to-client SSE stream
+ *          (resumable via `Last-Event-ID`)
+ * - DELETE with `Mcp-Session-Id` ends the session
+ */
+
+import { randomUUID } from 'crypto';
+import { Response } from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { metrics } from '../utils/metrics.js';
+import { RequestWithId } from '../middleware/request-id.js';
+import { InMemoryEventStore } from './event-store.js';
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastActivity: number;
+}
+
+export class StreamableHttpSessionManager {
+  private sessions: Map<string, McpSession> = new Map();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(
+    private createServer: () => McpServer,
+    private idleTimeoutMs: number = config.mcpSessionIdleTimeoutMs
+  ) {
+    // Expire idle sessions every minute
+    this.cleanupInterval = setInterval(() => this.cleanupIdleSessions(), 60000);
+  }
+
+  private getSessionId(req: RequestWithId): string | undefined {
+    return req.headers['mcp-session-id'] as string | undefined;
+  }
+
+  private sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    });
+  }
+
+  private updateSessionGauge(): void {
+    metrics.setGauge('mcp_active_sessions', this.sessions.size);
+  }
+
+  /**
+   * Handle POST: initialize a new session or route a message to an existing one
+   */
+  async handlePost(req: RequestWithId, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        return this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      return this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { transport, server, lastActivity: Date.now() });
+        this.updateSessionGauge();
+        logger.info('MCP session initialized', { requestId: req.requestId, sessionId: newSessionId });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        this.updateSessionGauge();
+        logger.info('MCP session closed', { sessionId: transport.sessionId });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /**
+   * Handle GET (SSE stream) and DELETE (terminate session) for an existing session
+   */
+  async handleSessionRequest(req: RequestWithId, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (!sessionId) {
+      return this.sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+    }
+    if (!session) {
+      return this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+    }
+
+    session.lastActivity = Date.now();
+    await session.transport.handleRequest(req, res);
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    this.updateSessionGauge();
+
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      logger.warn('Error closing MCP session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private cleanupIdleSessions(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (now - session.lastActivity > this.idleTimeoutMs) {
+        logger.info('Expiring idle MCP session', { sessionId });
+        void this.closeSession(sessionId);
+      }
+    }
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async destroy(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.closeSession(id)));
+  }
+}
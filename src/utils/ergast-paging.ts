@@ -0,0 +1,108 @@
+/**
+ * Helpers for stitching paginated Ergast/Jolpica responses back together
+ * Ergast pages by row (a single result, lap timing or standing), so one race
+ * or lap can be split across two pages and has to be merged again.
+ */
+
+type ErgastRow = Record<string, unknown>;
+
+export interface ErgastPage {
+  offset: number;
+  limit: number;
+}
+
+export interface ErgastPagePlan {
+  // Rows that will be fetched, at most `maxRows`
+  fetched: number;
+  truncated: boolean;
+  // Pages still to request after the first one
+  remaining: ErgastPage[];
+}
+
+function isRow(value: unknown): value is ErgastRow {
+  return typeof value === 'object' && value !== null;
+}
+
+// Rows sharing a key are fragments of the same race, standings list or lap
+function rowKey(row: unknown): string | undefined {
+  if (!isRow(row)) {
+    return undefined;
+  }
+  if (Array.isArray(row.Timings)) {
+    return `lap:${row.number}`;
+  }
+  if (row.season !== undefined && row.round !== undefined) {
+    return `${row.season}:${row.round}`;
+  }
+  return undefined;
+}
+
+function mergeRow(previous: ErgastRow, next: ErgastRow): ErgastRow {
+  const merged = { ...previous };
+  for (const [key, value] of Object.entries(next)) {
+    const existing = previous[key];
+    if (Array.isArray(value) && Array.isArray(existing)) {
+      merged[key] = mergeErgastRows([...existing, ...value]);
+    } else if (!(key in merged)) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Plan the pages of an Ergast table once the first page has reported
+ * MRData.total, stopping at `maxRows` rows
+ */
+export function planErgastPages(total: number, pageSize: number, maxRows: number): ErgastPagePlan {
+  const fetched = Math.min(total, maxRows);
+  const remaining: ErgastPage[] = [];
+  for (let offset = pageSize; offset < fetched; offset += pageSize) {
+    remaining.push({ offset, limit: Math.min(pageSize, maxRows - offset) });
+  }
+  return { fetched, truncated: fetched < total, remaining };
+}
+
+/**
+ * Merge consecutive fragments of the same race/standings list/lap,
+ * concatenating their nested result arrays in page order
+ */
+export function mergeErgastRows(rows: unknown[]): unknown[] {
+  const merged: unknown[] = [];
+
+  for (const row of rows) {
+    const key = rowKey(row);
+    const last = merged.length - 1;
+    const previous = merged[last];
+    if (key !== undefined && isRow(previous) && isRow(row) && rowKey(previous) === key) {
+      merged[last] = mergeRow(previous, row);
+    } else {
+      merged.push(row);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Map over items with at most `concurrency` promises in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -9,7 +9,9 @@ import { rateLimiter } from '../middleware/rate-limiter.js';
 
 let shutdownInProgress = false;
 
-export function setupGracefulShutdown(server: Server): void {
+export type CleanupTask = () => Promise<void> | void;
+
+export function setupGracefulShutdown(server: Server, cleanupTasks: CleanupTask[] = []): void {
   const shutdown = async (signal: string) => {
     if (shutdownInProgress) {
       logger.warn('Shutdown already in progress', { signal });
@@ -29,7 +31,10 @@ export function setupGracefulShutdown(server: Server): void {
       // Cleanup rate limiter
       rateLimiter.destroy();
       
-      // Add other cleanup tasks here (Redis, Postgres, etc.)
+      // Run caller-provided cleanup (MCP sessions, Redis, Postgres, etc.)
+      for (const task of cleanupTasks) {
+        await task();
+      }
       
       logger.info('Graceful shutdown completed');
       process.exit(0);
@@ -0,0 +1,374 @@
+/**
+ * Championship points systems
+ * Points by finishing position for races and sprints, the fastest-lap bonus,
+ * shared drives, reduced points for shortened races and dropped results for
+ * each era of the World Championship, plus the scoring of Ergast results
+ * under any of them.
+ */
+
+import { Race, Result } from '../interfaces/ergast.interface.js';
+
+// Reduced points for races stopped short of full distance (as a share of the
+// scheduled distance): either a fraction of the normal table or, from 2022,
+// a table per distance band
+export interface ShortenedRule {
+  below: number;
+  factor?: number;
+  tiers?: { below: number; race: number[] }[];
+}
+
+// Only the best results count: `best` holds one count for the whole season or
+// one per half; the first half is `firstHalf` rounds (half the season,
+// rounded up, by default)
+export interface DroppedResults {
+  best: number[];
+  firstHalf?: number;
+}
+
+export interface PointsSystem {
+  id: string;
+  name: string;
+  // Points by finishing position, from P1
+  race: number[];
+  sprint: number[];
+  fastestLap: number;
+  // The fastest-lap bonus only counts for drivers finishing this high or better
+  fastestLapMaxPosition?: number;
+  // Drivers sharing a car split its points ('split', until 1957) or score
+  // nothing ('none')
+  sharedDrives: 'split' | 'none';
+  shortened: ShortenedRule;
+  // Only a constructor's best-placed car scored until 1978
+  constructorBestCarOnly: boolean;
+  dropped?: DroppedResults;
+  // First and last season the system was used
+  seasons: [number, number];
+}
+
+const HALF_POINTS: ShortenedRule = { below: 0.75, factor: 0.5 };
+
+const TOP_TEN = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
+
+export const POINTS_SYSTEMS: PointsSystem[] = [
+  {
+    id: '1950',
+    name: '8-6-4-3-2, fastest lap 1, shared drives split (1950-1957)',
+    race: [8, 6, 4, 3, 2],
+    sprint: [],
+    fastestLap: 1,
+    sharedDrives: 'split',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: true,
+    seasons: [1950, 1957],
+  },
+  {
+    id: '1958',
+    name: '8-6-4-3-2, fastest lap 1 (1958-1959)',
+    race: [8, 6, 4, 3, 2],
+    sprint: [],
+    fastestLap: 1,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: true,
+    seasons: [1958, 1959],
+  },
+  {
+    id: '1960',
+    name: '8-6-4-3-2-1 (1960)',
+    race: [8, 6, 4, 3, 2, 1],
+    sprint: [],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: true,
+    seasons: [1960, 1960],
+  },
+  {
+    id: '1961',
+    name: '9-6-4-3-2-1 (1961-1978)',
+    race: [9, 6, 4, 3, 2, 1],
+    sprint: [],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: true,
+    seasons: [1961, 1978],
+  },
+  {
+    id: '1979',
+    name: '9-6-4-3-2-1, every car scores for its constructor (1979-1990)',
+    race: [9, 6, 4, 3, 2, 1],
+    sprint: [],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: false,
+    seasons: [1979, 1990],
+  },
+  {
+    id: '1991',
+    name: '10-6-4-3-2-1 (1991-2002)',
+    race: [10, 6, 4, 3, 2, 1],
+    sprint: [],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: false,
+    seasons: [1991, 2002],
+  },
+  {
+    id: '2003',
+    name: '10-8-6-5-4-3-2-1 (2003-2009)',
+    race: [10, 8, 6, 5, 4, 3, 2, 1],
+    sprint: [],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: false,
+    seasons: [2003, 2009],
+  },
+  {
+    id: '2010',
+    name: '25-18-15-12-10-8-6-4-2-1 (2010-2018)',
+    race: TOP_TEN,
+    sprint: [],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: false,
+    seasons: [2010, 2018],
+  },
+  {
+    id: '2019',
+    name: '25-18-15-12-10-8-6-4-2-1, fastest lap 1 (2019-2020)',
+    race: TOP_TEN,
+    sprint: [],
+    fastestLap: 1,
+    fastestLapMaxPosition: 10,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: false,
+    seasons: [2019, 2020],
+  },
+  {
+    id: '2021',
+    name: '25-18-15-12-10-8-6-4-2-1, fastest lap 1, sprint 3-2-1 (2021)',
+    race: TOP_TEN,
+    sprint: [3, 2, 1],
+    fastestLap: 1,
+    fastestLapMaxPosition: 10,
+    sharedDrives: 'none',
+    shortened: HALF_POINTS,
+    constructorBestCarOnly: false,
+    seasons: [2021, 2021],
+  },
+  {
+    id: '2022',
+    name: '25-18-15-12-10-8-6-4-2-1, fastest lap 1, sprint 8-7-6-5-4-3-2-1 (2022-2024)',
+    race: TOP_TEN,
+    sprint: [8, 7, 6, 5, 4, 3, 2, 1],
+    fastestLap: 1,
+    fastestLapMaxPosition: 10,
+    sharedDrives: 'none',
+    shortened: {
+      below: 0.75,
+      tiers: [
+        { below: 0.25, race: [6, 4, 3, 2, 1] },
+        { below: 0.5, race: [13, 10, 8, 6, 5, 4, 3, 2, 1] },
+        { below: 0.75, race: [19, 14, 12, 9, 8, 6, 5, 3, 2, 1] },
+      ],
+    },
+    constructorBestCarOnly: false,
+    seasons: [2022, 2024],
+  },
+  {
+    id: '2025',
+    name: '25-18-15-12-10-8-6-4-2-1, sprint 8-7-6-5-4-3-2-1 (2025 onwards)',
+    race: TOP_TEN,
+    sprint: [8, 7, 6, 5, 4, 3, 2, 1],
+    fastestLap: 0,
+    sharedDrives: 'none',
+    shortened: {
+      below: 0.75,
+      tiers: [
+        { below: 0.25, race: [6, 4, 3, 2, 1] },
+        { below: 0.5, race: [13, 10, 8, 6, 5, 4, 3, 2, 1] },
+        { below: 0.75, race: [19, 14, 12, 9, 8, 6, 5, 3, 2, 1] },
+      ],
+    },
+    constructorBestCarOnly: false,
+    seasons: [2025, Infinity],
+  },
+];
+
+// Drivers' championship results that counted, by season (every result
+// counts from 1991)
+const DROPPED_RESULTS: Record<number, DroppedResults> = {
+  1950: { best: [4] }, 1951: { best: [4] }, 1952: { best: [4] }, 1953: { best: [4] },
+  1954: { best: [5] }, 1955: { best: [5] }, 1956: { best: [5] }, 1957: { best: [5] },
+  1958: { best: [6] }, 1959: { best: [5] }, 1960: { best: [6] },
+  1961: { best: [5] }, 1962: { best: [5] },
+  1963: { best: [6] }, 1964: { best: [6] }, 1965: { best: [6] }, 1966: { best: [5] },
+  1967: { best: [5, 4] }, 1968: { best: [5, 5] }, 1969: { best: [5, 4] }, 1970: { best: [6, 5] },
+  1971: { best: [5, 4] }, 1972: { best: [5, 5] }, 1973: { best: [7, 6] }, 1974: { best: [7, 6] },
+  1975: { best: [6, 6] }, 1976: { best: [7, 7] }, 1977: { best: [8, 7] }, 1978: { best: [7, 7] },
+  1979: { best: [4, 4], firstHalf: 7 }, 1980: { best: [5, 5] },
+  1981: { best: [11] }, 1982: { best: [11] }, 1983: { best: [11] }, 1984: { best: [11] },
+  1985: { best: [11] }, 1986: { best: [11] }, 1987: { best: [11] }, 1988: { best: [11] },
+  1989: { best: [11] }, 1990: { best: [11] },
+};
+
+/**
+ * Rules in force in `year`, including that season's dropped results
+ */
+export function pointsSystemForSeason(year: number): PointsSystem {
+  const system = POINTS_SYSTEMS.find(entry => year >= entry.seasons[0] && year <= entry.seasons[1]) ??
+    POINTS_SYSTEMS[year < POINTS_SYSTEMS[0].seasons[0] ? 0 : POINTS_SYSTEMS.length - 1];
+  const dropped = DROPPED_RESULTS[year];
+  return dropped ? { ...system, dropped } : system;
+}
+
+export function racePoints(system: PointsSystem, position: number, distance: number = 1): number {
+  return raceTable(system, distance)[position - 1] ?? 0;
+}
+
+export function sprintPoints(system: PointsSystem, position: number): number {
+  return system.sprint[position - 1] ?? 0;
+}
+
+/**
+ * Most points one entry can score in a weekend; constructors score with
+ * `cars` cars, taking the top places
+ */
+export function maxWeekendPoints(system: PointsSystem, sprintWeekend: boolean, cars: number = 1): number {
+  const top = (points: number[]) => points.slice(0, cars).reduce((total, value) => total + value, 0);
+  return top(system.race) + system.fastestLap + (sprintWeekend ? top(system.sprint) : 0);
+}
+
+// Points table for a race run to `distance` (share of the scheduled distance)
+function raceTable(system: PointsSystem, distance: number): number[] {
+  const { shortened } = system;
+  if (distance >= shortened.below) {
+    return system.race;
+  }
+  if (shortened.tiers) {
+    return shortened.tiers.find(tier => distance < tier.below)?.race ?? system.race;
+  }
+  return system.race.map(points => points * (shortened.factor ?? 1));
+}
+
+// Classified finishers only: Ergast position text is "R", "D", "W" etc. otherwise
+export function classified(result: Result): boolean {
+  return /^\d+$/.test(result.positionText);
+}
+
+/**
+ * Share of race distance completed, estimated from the points the winner was
+ * actually awarded under `system` (the season's own rules). Ergast does not
+ * publish the scheduled distance, so a shortened race is placed in the
+ * middle of the band its points match
+ */
+export function raceDistance(race: Race, system: PointsSystem): number {
+  const winners = (race.Results ?? []).filter(result => classified(result) && result.position === 1);
+  if (winners.length === 0) {
+    return 1;
+  }
+  const awarded = winners.reduce((total, result) => total + result.points, 0);
+  const matches = (points: number) =>
+    [awarded, awarded - system.fastestLap].some(value => Math.abs(value - points) < 0.01);
+  if (matches(system.race[0])) {
+    return 1;
+  }
+
+  let lower = 0;
+  for (const tier of system.shortened.tiers ?? [{ below: system.shortened.below, race: raceTable(system, 0) }]) {
+    if (matches(tier.race[0])) {
+      return (lower + tier.below) / 2;
+    }
+    lower = tier.below;
+  }
+  return 1;
+}
+
+/**
+ * Drivers credited with the fastest lap: Ergast's fastest-lap rank where it
+ * has one (2004 onwards), else anyone awarded more than their finishing
+ * position was worth under the season's own rules
+ */
+export function fastestLapDrivers(race: Race, system: PointsSystem, distance: number): Set<string> {
+  const results = race.Results ?? [];
+  const ranked = results.filter(result => result.FastestLap?.rank === 1);
+  if (ranked.length > 0 || system.fastestLap === 0) {
+    return new Set(ranked.map(result => result.Driver.driverId));
+  }
+  const shares = sharedPositions(results);
+  return new Set(results
+    .filter(result => {
+      const share = classified(result) ? shares.get(result.position) ?? 1 : 1;
+      const expected = classified(result) ? racePoints(system, result.position, distance) / share : 0;
+      return result.points - expected > 0.01;
+    })
+    .map(result => result.Driver.driverId));
+}
+
+// Drivers per classified position; more than one means a shared car
+function sharedPositions(results: Result[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const result of results.filter(classified)) {
+    counts.set(result.position, (counts.get(result.position) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Points for each row of a grand prix classification under `system`, in the
+ * same order as `results`
+ */
+export function scoreRace(
+  system: PointsSystem,
+  results: Result[],
+  distance: number = 1,
+  fastestLap: Set<string> = new Set()
+): number[] {
+  const shares = sharedPositions(results);
+  const points = results.map(result => {
+    const share = shares.get(result.position) ?? 1;
+    return classified(result) && (share === 1 || system.sharedDrives === 'split')
+      ? racePoints(system, result.position, distance) / share
+      : 0;
+  });
+
+  const holders = results
+    .map((result, index) => ({ result, index }))
+    .filter(({ result }) =>
+      fastestLap.has(result.Driver.driverId) &&
+      (system.fastestLapMaxPosition === undefined ||
+        (classified(result) && result.position <= system.fastestLapMaxPosition))
+    );
+  for (const { index } of holders) {
+    points[index] += system.fastestLap / holders.length;
+  }
+  return points;
+}
+
+export function scoreSprint(system: PointsSystem, results: Result[]): number[] {
+  return results.map(result => classified(result) ? sprintPoints(system, result.position) : 0);
+}
+
+/**
+ * Season total from points per round (in round order) after dropping the
+ * results that did not count
+ */
+export function countedPoints(system: PointsSystem, rounds: number[]): number {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const best = (values: number[], count: number) => sum([...values].sort((a, b) => b - a).slice(0, count));
+  const { dropped } = system;
+  if (!dropped) {
+    return sum(rounds);
+  }
+  if (dropped.best.length === 1) {
+    return best(rounds, dropped.best[0]);
+  }
+  const firstHalf = dropped.firstHalf ?? Math.ceil(rounds.length / 2);
+  return best(rounds.slice(0, firstHalf), dropped.best[0]) + best(rounds.slice(firstHalf), dropped.best[1]);
+}
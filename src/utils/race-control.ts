@@ -0,0 +1,214 @@
+/**
+ * Race control message parsing
+ * Turns OpenF1 race_control rows into flag/neutralisation periods and
+ * per-driver stewarding incidents.
+ */
+
+import { RaceControlData } from '../services/f1-data.service.js';
+import {
+  DriverIncident,
+  DriverIncidents,
+  IncidentType,
+  TimelinePeriod,
+  TimelinePeriodType,
+} from '../interfaces/f1-data.interface.js';
+
+// Track-wide periods that interrupt racing
+const NEUTRALISED: TimelinePeriodType[] = ['vsc', 'sc', 'red'];
+
+// Car references look like "CAR 44 (HAM)" or "CARS 1 (VER) AND 4 (NOR)"
+const CAR_REFERENCE = /(\d+) \([A-Z]+\)/g;
+
+export function isNeutralisedPeriod(period: TimelinePeriod): boolean {
+  return NEUTRALISED.includes(period.type);
+}
+
+/**
+ * Flag and neutralisation periods in start order. Green periods fill the gaps
+ * between safety cars, VSCs and red flags up to the chequered flag.
+ */
+export function buildPeriods(messages: RaceControlData[]): TimelinePeriod[] {
+  const sorted = [...messages].sort((a, b) => a.date.localeCompare(b.date));
+  const periods: TimelinePeriod[] = [];
+  const open = new Map<string, TimelinePeriod>();
+  // "SAFETY CAR IN THIS LAP" is the fallback end if no green flag follows
+  let safetyCarIn: RaceControlData | undefined;
+
+  const start = (type: TimelinePeriodType, message: RaceControlData, sector: number | null = null) => {
+    const key = sector !== null ? `sector:${sector}` : type;
+    if (!open.has(key)) {
+      const period: TimelinePeriod = {
+        type,
+        start: message.date,
+        end: null,
+        start_lap: message.lap_number ?? null,
+        end_lap: null,
+        sector,
+        message: message.message,
+      };
+      open.set(key, period);
+      periods.push(period);
+    }
+  };
+  const end = (key: string, message: RaceControlData) => {
+    const period = open.get(key);
+    if (period) {
+      period.end = message.date;
+      period.end_lap = message.lap_number ?? null;
+      open.delete(key);
+    }
+  };
+
+  for (const message of sorted) {
+    const text = message.message.toUpperCase();
+    const trackWide = message.scope === 'Track' || message.scope === null;
+
+    if (message.category === 'SafetyCar') {
+      const virtual = text.includes('VIRTUAL');
+      if (text.includes('DEPLOYED')) {
+        if (safetyCarIn) {
+          end('sc', safetyCarIn);
+          safetyCarIn = undefined;
+        }
+        start(virtual ? 'vsc' : 'sc', message);
+      } else if (virtual && text.includes('ENDING')) {
+        end('vsc', message);
+      } else if (text.includes('IN THIS LAP') || text.includes('ENDING')) {
+        safetyCarIn = message;
+      }
+      continue;
+    }
+
+    if (message.flag === 'RED') {
+      start('red', message);
+    } else if (message.flag === 'YELLOW' || message.flag === 'DOUBLE YELLOW') {
+      start(message.flag === 'YELLOW' ? 'yellow' : 'double_yellow', message, message.sector ?? null);
+    } else if (message.flag === 'CLEAR' && !trackWide) {
+      end(`sector:${message.sector}`, message);
+    } else if ((message.flag === 'GREEN' || message.flag === 'CLEAR') && trackWide) {
+      // A green light or track clear ends every open flag
+      for (const key of [...open.keys()]) {
+        end(key, message);
+      }
+      safetyCarIn = undefined;
+    } else if (message.flag === 'CHEQUERED') {
+      periods.push({
+        type: 'chequered',
+        start: message.date,
+        end: message.date,
+        start_lap: message.lap_number ?? null,
+        end_lap: message.lap_number ?? null,
+        sector: null,
+        message: message.message,
+      });
+    }
+  }
+
+  if (safetyCarIn) {
+    end('sc', safetyCarIn);
+  }
+
+  return [...periods, ...greenPeriods(sorted, periods)]
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+// Racing between neutralisations, from the first green light (or message)
+// to the chequered flag
+function greenPeriods(sorted: RaceControlData[], periods: TimelinePeriod[]): TimelinePeriod[] {
+  const first = sorted.find(message => message.flag === 'GREEN') ?? sorted[0];
+  if (!first) {
+    return [];
+  }
+  const chequered = periods.find(period => period.type === 'chequered');
+  const neutralised = periods.filter(isNeutralisedPeriod);
+  const green: TimelinePeriod[] = [];
+  let cursor: { date: string; lap: number | null } | undefined = { date: first.date, lap: first.lap_number ?? null };
+
+  const close = (date: string, lap: number | null) => {
+    if (cursor && date > cursor.date) {
+      green.push({
+        type: 'green',
+        start: cursor.date,
+        end: date,
+        start_lap: cursor.lap,
+        end_lap: lap,
+        sector: null,
+        message: 'Racing',
+      });
+    }
+  };
+
+  for (const period of neutralised) {
+    if (chequered && period.start >= chequered.start) {
+      break;
+    }
+    close(period.start, period.start_lap);
+    cursor = period.end !== null
+      ? (cursor && cursor.date > period.end ? cursor : { date: period.end, lap: period.end_lap })
+      : undefined;
+  }
+
+  if (cursor) {
+    if (chequered) {
+      close(chequered.start, chequered.start_lap);
+    } else {
+      green.push({
+        type: 'green',
+        start: cursor.date,
+        end: null,
+        start_lap: cursor.lap,
+        end_lap: null,
+        sector: null,
+        message: 'Racing',
+      });
+    }
+  }
+  return green;
+}
+
+/**
+ * Investigations, penalties, deleted laps and warnings grouped by driver
+ */
+export function groupIncidents(messages: RaceControlData[]): DriverIncidents[] {
+  const byDriver = new Map<number, DriverIncident[]>();
+
+  for (const message of [...messages].sort((a, b) => a.date.localeCompare(b.date))) {
+    const type = incidentType(message);
+    if (!type) {
+      continue;
+    }
+    const drivers = new Set([...message.message.matchAll(CAR_REFERENCE)].map(match => Number(match[1])));
+    if (message.driver_number !== null) {
+      drivers.add(message.driver_number);
+    }
+    for (const driver of drivers) {
+      const incidents = byDriver.get(driver) ?? [];
+      incidents.push({ date: message.date, lap: message.lap_number ?? null, type, message: message.message });
+      byDriver.set(driver, incidents);
+    }
+  }
+
+  return [...byDriver]
+    .sort(([a], [b]) => a - b)
+    .map(([driver, incidents]) => ({ driver_number: driver.toString(), incidents }));
+}
+
+function incidentType(message: RaceControlData): IncidentType | undefined {
+  const text = message.message.toUpperCase();
+  if (message.flag === 'BLACK AND WHITE') {
+    return 'warning';
+  }
+  if (text.includes('NO FURTHER') || text.includes('REVIEWED NO')) {
+    return 'cleared';
+  }
+  if (text.includes('PENALTY') || text.includes('DISQUALIFIED')) {
+    return 'penalty';
+  }
+  if (text.includes('DELETED')) {
+    return 'lap_deleted';
+  }
+  if (text.includes('INVESTIGATION') || text.includes('NOTED') || text.includes('INVESTIGATED')) {
+    return 'investigation';
+  }
+  return undefined;
+}
@@ -0,0 +1,66 @@
+/**
+ * Small numeric helpers shared by the analysis tools
+ */
+
+export function mean(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+export function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Least-squares fit of y = intercept + slope * x
+ * Returns undefined with fewer than two distinct x values
+ */
+export function linearFit(xs: number[], ys: number[]): { slope: number; intercept: number } | undefined {
+  const n = Math.min(xs.length, ys.length);
+  const meanX = mean(xs.slice(0, n));
+  const meanY = mean(ys.slice(0, n));
+  if (meanX === undefined || meanY === undefined) {
+    return undefined;
+  }
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  if (variance === 0) {
+    return undefined;
+  }
+
+  const slope = covariance / variance;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+// Round to a fixed number of decimals for readable tool output
+export function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) returning values in
+ * [0, 1), so simulations give the same answer for the same seed
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
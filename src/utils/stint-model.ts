@@ -0,0 +1,175 @@
+/**
+ * Stint model shared by the analysis tools
+ * Picks the representative laps of a tyre stint (no in/out laps, safety car
+ * periods, traffic or outliers) and fits fuel-corrected pace and degradation.
+ */
+
+import { IntervalData, LapData, RaceControlData, StintData } from '../services/f1-data.service.js';
+import { buildPeriods, isNeutralisedPeriod } from './race-control.js';
+import { linearFit, mean, median, round } from './stats.js';
+
+// Lap time gained per lap from burning fuel (about 1.7 kg a lap at
+// roughly 0.035 s/kg)
+export const FUEL_EFFECT_SECONDS_PER_LAP = 0.06;
+
+// Following closer than this to the car ahead (seconds) counts as traffic
+const TRAFFIC_GAP_SECONDS = 1;
+
+// Laps slower than this share of the stint median (slow laps not flagged by
+// race control, mistakes) are left out of the fit
+const OUTLIER_RATIO = 1.07;
+
+// Degradation needs at least this many clean laps to be meaningful
+const MIN_FIT_LAPS = 3;
+
+export type TimedLap = LapData & { lap_duration: number };
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export interface StintSample {
+  lap_number: number;
+  tyre_age: number;
+  lap_time: number;
+  fuel_corrected: number;
+}
+
+export interface StintFit {
+  samples: StintSample[];
+  excluded: { in_out: number; neutralised: number; traffic: number; outliers: number };
+  average_time: number | null;
+  fuel_corrected_pace: number | null;
+  degradation: number | null;
+}
+
+export interface StintFitContext {
+  totalLaps: number;
+  finalStint: boolean;
+  neutralised?: TimeWindow[];
+  intervals?: IntervalData[];
+}
+
+/**
+ * Safety car, virtual safety car and red flag periods from race control
+ * messages, as epoch millisecond windows
+ */
+export function neutralisedWindows(messages: RaceControlData[]): TimeWindow[] {
+  return buildPeriods(messages)
+    .filter(isNeutralisedPeriod)
+    .map(period => ({
+      start: Date.parse(period.start),
+      end: period.end !== null ? Date.parse(period.end) : Infinity,
+    }));
+}
+
+export function isTimed(lap: LapData): lap is TimedLap {
+  return lap.lap_duration !== null;
+}
+
+export function fuelCorrected(lap: TimedLap, totalLaps: number): number {
+  return lap.lap_duration - FUEL_EFFECT_SECONDS_PER_LAP * Math.max(0, totalLaps - lap.lap_number);
+}
+
+/**
+ * Clean laps of one stint with the fitted fuel-corrected pace and degradation
+ * (seconds lost per lap of tyre age)
+ */
+export function fitStint(stint: StintData, laps: LapData[], context: StintFitContext): StintFit {
+  const lapStart = stint.lap_start ?? 1;
+  const lapEnd = stint.lap_end ?? context.totalLaps;
+  const intervals = [...(context.intervals ?? [])].sort((a, b) => a.date.localeCompare(b.date));
+  const excluded = { in_out: 0, neutralised: 0, traffic: 0, outliers: 0 };
+  const candidates: TimedLap[] = [];
+
+  for (const lap of laps) {
+    if (lap.lap_number < lapStart || lap.lap_number > lapEnd || !isTimed(lap)) {
+      continue;
+    }
+    const inLap = !context.finalStint && lap.lap_number === lapEnd;
+    if (lap.is_pit_out_lap || inLap || lap.lap_number === 1) {
+      excluded.in_out++;
+    } else if (isNeutralised(lap, context.neutralised ?? [])) {
+      excluded.neutralised++;
+    } else if (inTraffic(lap, intervals)) {
+      excluded.traffic++;
+    } else {
+      candidates.push(lap);
+    }
+  }
+
+  const typical = median(candidates.map(lap => lap.lap_duration));
+  const clean = candidates.filter(lap => typical !== undefined && lap.lap_duration <= typical * OUTLIER_RATIO);
+  excluded.outliers = candidates.length - clean.length;
+
+  const samples = clean
+    .sort((a, b) => a.lap_number - b.lap_number)
+    .map(lap => ({
+      lap_number: lap.lap_number,
+      tyre_age: (stint.tyre_age_at_start ?? 0) + lap.lap_number - lapStart,
+      lap_time: lap.lap_duration,
+      fuel_corrected: fuelCorrected(lap, context.totalLaps),
+    }));
+  const averageTime = mean(samples.map(sample => sample.lap_time));
+  const correctedPace = mean(samples.map(sample => sample.fuel_corrected));
+  const fit = samples.length >= MIN_FIT_LAPS
+    ? linearFit(samples.map(sample => sample.tyre_age), samples.map(sample => sample.fuel_corrected))
+    : undefined;
+
+  return {
+    samples,
+    excluded,
+    average_time: averageTime !== undefined ? round(averageTime) : null,
+    fuel_corrected_pace: correctedPace !== undefined ? round(correctedPace) : null,
+    degradation: fit ? round(fit.slope) : null,
+  };
+}
+
+/**
+ * Degradation pooled over several stints: each stint is centred on its own
+ * mean age and pace first, so differences between cars and drivers cancel out
+ */
+export function pooledDegradation(stints: StintSample[][]): number | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const samples of stints) {
+    const meanAge = mean(samples.map(sample => sample.tyre_age));
+    const meanPace = mean(samples.map(sample => sample.fuel_corrected));
+    if (samples.length < MIN_FIT_LAPS || meanAge === undefined || meanPace === undefined) {
+      continue;
+    }
+    for (const sample of samples) {
+      xs.push(sample.tyre_age - meanAge);
+      ys.push(sample.fuel_corrected - meanPace);
+    }
+  }
+
+  const fit = linearFit(xs, ys);
+  return fit ? round(fit.slope) : null;
+}
+
+// Whether any part of the lap ran during a neutralised window
+export function isNeutralised(lap: TimedLap, windows: TimeWindow[]): boolean {
+  if (!lap.date_start) {
+    return false;
+  }
+  const start = Date.parse(lap.date_start);
+  const end = start + lap.lap_duration * 1000;
+  return windows.some(window => start < window.end && end > window.start);
+}
+
+// Interval to the car ahead when the lap started
+function inTraffic(lap: LapData, intervals: IntervalData[]): boolean {
+  if (!lap.date_start) {
+    return false;
+  }
+  let gap: number | undefined;
+  for (const interval of intervals) {
+    if (interval.date > lap.date_start) {
+      break;
+    }
+    gap = typeof interval.interval === 'number' ? interval.interval : undefined;
+  }
+  return gap !== undefined && gap < TRAFFIC_GAP_SECONDS;
+}